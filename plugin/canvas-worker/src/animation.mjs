@@ -0,0 +1,194 @@
+// @ts-check
+import { Buffer } from 'node:buffer'
+
+/** @typedef {import('./types').RenderNode} RenderNode */
+/** @typedef {import('./types').AnimationTrack} AnimationTrack */
+/** @typedef {import('./types').Easing} Easing */
+
+/** @type {Record<Easing, (t: number) => number>} */
+const EASINGS = {
+  linear: (t) => t,
+  'ease-in': (t) => t * t,
+  'ease-out': (t) => t * (2 - t),
+  'ease-in-out': (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+  step: () => 0,
+}
+
+/**
+ * @param {AnimationTrack} track
+ * @param {number} frame
+ * @returns {import('./types').AnimationKeyframe['value']|undefined}
+ */
+export function sampleTrack(track, frame) {
+  const keyframes = [...track.keyframes].sort((a, b) => a.frame - b.frame)
+  if (!keyframes.length) return undefined
+  if (frame <= keyframes[0].frame) return keyframes[0].value
+  const last = keyframes[keyframes.length - 1]
+  if (frame >= last.frame) return last.value
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i]
+    const to = keyframes[i + 1]
+    if (frame < from.frame || frame > to.frame) continue
+    if (typeof from.value !== 'number' || typeof to.value !== 'number') return from.value
+    const span = to.frame - from.frame
+    const t = span > 0 ? EASINGS[track.easing ?? 'linear']((frame - from.frame) / span) : 1
+    return from.value + (to.value - from.value) * t
+  }
+  return last.value
+}
+
+/**
+ * @param {Record<string, any>} target
+ * @param {string} property 支持点路径，如 `shadow.blur`
+ * @param {unknown} value
+ */
+function setPath(target, property, value) {
+  const keys = property.split('.')
+  let cursor = target
+  for (const key of keys.slice(0, -1)) {
+    if (cursor[key] === null || typeof cursor[key] !== 'object') cursor[key] = {}
+    cursor = cursor[key]
+  }
+  cursor[keys[keys.length - 1]] = value
+}
+
+/**
+ * 按 id 定位节点并写入该帧的属性值；返回新的节点树，不修改输入
+ * @param {RenderNode[]} nodes
+ * @param {AnimationTrack[]} tracks
+ * @param {number} frame
+ * @returns {RenderNode[]}
+ */
+export function applyTimeline(nodes, tracks, frame) {
+  const cloned = structuredClone(nodes)
+  /** @type {Map<string, RenderNode>} */
+  const byId = new Map()
+  /** @param {RenderNode[]} list */
+  const walk = (list) => {
+    for (const node of list) {
+      if (node.id) byId.set(node.id, node)
+      if (node.children?.length) walk(node.children)
+    }
+  }
+  walk(cloned)
+
+  for (const track of tracks) {
+    const node = byId.get(track.target)
+    if (!node) continue
+    let value = sampleTrack(track, frame)
+    if (value === undefined) continue
+    if (typeof value === 'number') {
+      value = track.property === 'text' ? value.toFixed(track.precision ?? 0) : value
+    }
+    setPath(node, track.property, value)
+  }
+  return cloned
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+/** @type {Uint32Array|null} */
+let crcTable = null
+
+/** @param {Buffer} data */
+function crc32(data) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * @param {string} type
+ * @param {Buffer} data
+ */
+function pngChunk(type, data) {
+  const head = Buffer.alloc(8)
+  head.writeUInt32BE(data.length, 0)
+  head.write(type, 4, 'ascii')
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])), 0)
+  return Buffer.concat([head, data, crc])
+}
+
+/**
+ * @param {Buffer} png
+ * @returns {Array<{ type: string; data: Buffer }>}
+ */
+function readChunks(png) {
+  if (!png.subarray(0, 8).equals(PNG_SIGNATURE)) throw new Error('Invalid PNG frame')
+  const chunks = []
+  let offset = 8
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset)
+    const type = png.toString('ascii', offset + 4, offset + 8)
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) })
+    offset += 12 + length
+  }
+  return chunks
+}
+
+/**
+ * 将同尺寸的 PNG 帧拼装为 APNG
+ * @param {Buffer[]} frames
+ * @param {number[]} delays 每帧毫秒数
+ * @param {number} width
+ * @param {number} height
+ * @param {number} repeat 0 为无限循环
+ * @returns {Buffer}
+ */
+export function encodeApng(frames, delays, width, height, repeat) {
+  if (!frames.length) throw new Error('APNG requires at least one frame')
+  const parts = [PNG_SIGNATURE]
+  let sequence = 0
+
+  const actl = Buffer.alloc(8)
+  actl.writeUInt32BE(frames.length, 0)
+  actl.writeUInt32BE(repeat, 4)
+
+  frames.forEach((frame, index) => {
+    const chunks = readChunks(frame)
+    if (index === 0) {
+      // IHDR 及 IDAT 之前的辅助块（sRGB、pHYs 等）沿用第一帧
+      for (const chunk of chunks) {
+        if (chunk.type === 'IDAT' || chunk.type === 'IEND') break
+        parts.push(pngChunk(chunk.type, chunk.data))
+        if (chunk.type === 'IHDR') parts.push(pngChunk('acTL', actl))
+      }
+    }
+
+    const fctl = Buffer.alloc(26)
+    fctl.writeUInt32BE(sequence++, 0)
+    fctl.writeUInt32BE(width, 4)
+    fctl.writeUInt32BE(height, 8)
+    fctl.writeUInt32BE(0, 12)
+    fctl.writeUInt32BE(0, 16)
+    fctl.writeUInt16BE(Math.min(0xffff, Math.max(0, Math.round(delays[index] ?? 100))), 20)
+    fctl.writeUInt16BE(1000, 22)
+    fctl.writeUInt8(0, 24) // dispose_op: none
+    fctl.writeUInt8(0, 25) // blend_op: source
+    parts.push(pngChunk('fcTL', fctl))
+
+    for (const chunk of chunks) {
+      if (chunk.type !== 'IDAT') continue
+      if (index === 0) {
+        parts.push(pngChunk('IDAT', chunk.data))
+      } else {
+        const seq = Buffer.alloc(4)
+        seq.writeUInt32BE(sequence++, 0)
+        parts.push(pngChunk('fdAT', Buffer.concat([seq, chunk.data])))
+      }
+    }
+  })
+
+  parts.push(pngChunk('IEND', Buffer.alloc(0)))
+  return Buffer.concat(parts)
+}
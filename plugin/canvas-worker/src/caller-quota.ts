@@ -0,0 +1,77 @@
+type Waiter = {
+  resolve: (release: () => void) => void
+  reject: (reason: unknown) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+/**
+ * 按调用方插件限制同时在 pool 中的任务数，超出的任务按 FIFO 等待。
+ * limitFor 返回 0 或负数表示不限制。
+ */
+export class CallerQuota {
+  private readonly active = new Map<string, number>()
+  private readonly waiters = new Map<string, Waiter[]>()
+  private waitingCount = 0
+
+  constructor(private readonly limitFor: (caller: string) => number) {}
+
+  /** 正在等待配额的任务数 */
+  get waiting(): number {
+    return this.waitingCount
+  }
+
+  acquire(caller: string, signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted()
+    const limit = this.limitFor(caller)
+    if (limit <= 0 || (this.active.get(caller) ?? 0) < limit) {
+      return Promise.resolve(this.take(caller))
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal }
+      const queue = this.waiters.get(caller) ?? []
+      queue.push(waiter)
+      this.waiters.set(caller, queue)
+      this.waitingCount++
+
+      if (signal) {
+        waiter.onAbort = () => {
+          if (this.removeWaiter(caller, waiter)) reject(signal.reason)
+        }
+        signal.addEventListener('abort', waiter.onAbort, { once: true })
+      }
+    })
+  }
+
+  private take(caller: string): () => void {
+    this.active.set(caller, (this.active.get(caller) ?? 0) + 1)
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      const count = (this.active.get(caller) ?? 1) - 1
+      if (count > 0) this.active.set(caller, count)
+      else this.active.delete(caller)
+      this.next(caller)
+    }
+  }
+
+  private next(caller: string) {
+    const waiter = this.waiters.get(caller)?.[0]
+    if (!waiter) return
+    this.removeWaiter(caller, waiter)
+    waiter.resolve(this.take(caller))
+  }
+
+  private removeWaiter(caller: string, waiter: Waiter): boolean {
+    const queue = this.waiters.get(caller)
+    const index = queue?.indexOf(waiter) ?? -1
+    if (!queue || index < 0) return false
+    queue.splice(index, 1)
+    if (!queue.length) this.waiters.delete(caller)
+    this.waitingCount--
+    if (waiter.onAbort) waiter.signal?.removeEventListener('abort', waiter.onAbort)
+    return true
+  }
+}
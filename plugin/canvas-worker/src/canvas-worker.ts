@@ -1,4 +1,5 @@
 import { Buffer } from 'node:buffer'
+import { createHash, randomBytes } from 'node:crypto'
 import fs from 'node:fs'
 import os from 'node:os'
 import path from 'node:path'
@@ -6,33 +7,118 @@ import { fileURLToPath, pathToFileURL } from 'node:url'
 
 import { BasePlugin, Config, Plugin } from '@pluxel/hmr'
 import { v } from '@pluxel/hmr/config'
+import { RpcTarget } from '@pluxel/hmr/capnweb'
+import { Collection } from '@pluxel/hmr/signaldb'
+import type { SseChannel } from '@pluxel/hmr/services'
 import Tinypool from 'tinypool'
 import FontManager from 'pluxel-plugin-font-manager'
 
 import type {
+  AnimationFormat,
+  AnimationRenderPayload,
+  AnimationRenderRequest,
+  BatchErrorInfo,
+  BatchItemResult,
+  BatchRenderItem,
+  BatchRenderOptions,
+  BatchRenderResult,
   EchartsRenderPayload,
   EchartsRenderRequest,
   FontBootstrap,
   FontSourcePayload,
+  FontSyncJob,
+  FontSyncResult,
+  ImagePolicy,
   LeafRenderOptions,
   LeafRenderPayload,
   LeafRenderRequest,
   LeaferTree,
+  RenderCallOptions,
+  RenderFormat,
   RenderNode,
+  RenderOutputOptions,
   RenderScene,
   RenderedImage,
+  SpriteOptions,
+  SpriteSheet,
+  TemplateDefinition,
+  TemplateOutput,
+  TemplateRender,
+  TemplateRenderOptions,
   WorkerJob,
   WorkerRenderResult,
   WorkerResult,
 } from './types'
+import { CallerQuota } from './caller-quota'
+import { QueueFullError, RenderTimeoutError } from './errors'
+import {
+  EchartsHttpRequestSchema,
+  HTTP_REQUEST_SCHEMAS,
+  type HttpRenderKind,
+  LeafHttpRequestSchema,
+  SignedQueryError,
+  clampRequestTimeout,
+  decodeSignedQuery,
+  encodeSignedQuery,
+  matchesETag,
+} from './http'
+import { RenderMetrics, type RenderMetricsSnapshot } from './metrics'
+import { RenderCache, type RenderCacheStats, fontBootstrapKey, renderCacheKey, stableStringify } from './render-cache'
+import { layoutSprite } from './sprite'
+export { QueueFullError, RenderTimeoutError } from './errors'
+export { EchartsHttpRequestSchema, LeafHttpRequestSchema, type HttpRenderKind } from './http'
 export { exportTree, tryExportTree } from './leaf-tools'
+export { Fragment, jsx, jsxs, type Component, type JSXChild } from './jsx-runtime'
 
 const DEFAULT_IDLE_TIMEOUT = 30_000
 const DEFAULT_WIDTH = 1000
 const DEFAULT_HEIGHT = 700
 const DEFAULT_FONT_KEY = 'sans'
+/** FontManager 未配置 emoji 组时富文本使用的 emoji 字体 */
+const DEFAULT_EMOJI_FONTS = ['Noto Color Emoji', 'Apple Color Emoji', 'Segoe UI Emoji', 'Twemoji Mozilla']
 const DEFAULT_ECHARTS_THEME = 'light'
 const DEFAULT_THEMES_DIR = 'node-rs/canvas/echarts'
+const DEFAULT_FORMAT: RenderFormat = 'png'
+const DEFAULT_CACHE_MAX_ENTRIES = 256
+const DEFAULT_CACHE_MAX_BYTES = 64 * 1024 * 1024
+const DEFAULT_CACHE_TTL = 10 * 60_000
+const DEFAULT_CACHE_MAX_DISK_BYTES = 512 * 1024 * 1024
+const CACHE_SWEEP_INTERVAL = 60_000
+const DEFAULT_FPS = 12
+const DEFAULT_MAX_FRAMES = 300
+const DEFAULT_TIMEOUT = 60_000
+const DEFAULT_MAX_QUEUE = 256
+const DEFAULT_HTTP_ROUTE = '/api/canvas'
+const DEFAULT_HTTP_MAX_AGE = 3600
+const METRICS_WINDOW = 15 * 60_000
+const METRICS_MAX_SAMPLES = 2000
+const STATS_PUSH_INTERVAL = 2000
+const DEFAULT_IMAGE_DENY_HOSTS = [
+  'localhost',
+  '127.0.0.1',
+  '::1',
+  '0.0.0.0',
+  '169.254.169.254',
+  '*.local',
+  '*.internal',
+]
+const DEFAULT_IMAGE_MAX_BYTES = 10 * 1024 * 1024
+const DEFAULT_IMAGE_TIMEOUT = 10_000
+const DEFAULT_IMAGE_MAX_PIXELS = 40_000_000
+const DEFAULT_IMAGE_CACHE_BYTES = 128 * 1024 * 1024
+
+const RENDER_FORMATS = ['png', 'jpeg', 'webp', 'avif', 'svg'] as const
+const ANIMATION_FORMATS = ['gif', 'apng'] as const
+const FORMAT_MIME: Record<RenderFormat | AnimationFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  gif: 'image/gif',
+  // APNG 向下兼容 PNG，使用 image/png 以免下游按扩展名拒收
+  apng: 'image/png',
+}
 
 const CfgSchema = v.object({
   maxThreads: v.optional(v.number()),
@@ -42,8 +128,70 @@ const CfgSchema = v.object({
   defaultFontKey: v.optional(v.string(), DEFAULT_FONT_KEY),
   defaultEchartsTheme: v.optional(v.string(), DEFAULT_ECHARTS_THEME),
   defaultThemesDir: v.optional(v.string(), DEFAULT_THEMES_DIR),
+  defaultFormat: v.optional(v.picklist(RENDER_FORMATS), DEFAULT_FORMAT),
+  defaultQuality: v.optional(v.pipe(v.number(), v.minValue(0), v.maxValue(100))),
+  cacheEnabled: v.optional(v.boolean(), false),
+  cacheMaxEntries: v.optional(v.number(), DEFAULT_CACHE_MAX_ENTRIES),
+  cacheMaxBytes: v.optional(v.number(), DEFAULT_CACHE_MAX_BYTES),
+  cacheTtlMs: v.optional(v.number(), DEFAULT_CACHE_TTL),
+  cacheDisk: v.optional(v.boolean(), false),
+  /** 磁盘缓存目录，默认 `data/<插件 id>/render-cache` */
+  cacheDir: v.optional(v.string()),
+  /** 磁盘缓存字节上限，0 表示不限制 */
+  cacheMaxDiskBytes: v.optional(v.number(), DEFAULT_CACHE_MAX_DISK_BYTES),
+  defaultFps: v.optional(v.number(), DEFAULT_FPS),
+  maxAnimationFrames: v.optional(v.number(), DEFAULT_MAX_FRAMES),
+  /** 单个任务默认超时，0 表示不限制 */
+  defaultTimeoutMs: v.optional(v.number(), DEFAULT_TIMEOUT),
+  /** 等待执行的任务上限，超出时抛出 QueueFullError；0 表示不限制 */
+  maxQueue: v.optional(v.number(), DEFAULT_MAX_QUEUE),
+  /** 每个调用方插件同时执行的任务数，0 表示不限制 */
+  callerConcurrency: v.optional(v.number(), 0),
+  /** 按插件 id 覆盖 callerConcurrency */
+  callerQuotas: v.optional(v.record(v.string(), v.number()), {}),
+  httpEnabled: v.optional(v.boolean(), false),
+  httpRoute: v.optional(v.string(), DEFAULT_HTTP_ROUTE),
+  /** 签名 GET URL 的 HMAC 密钥；留空时自动生成并持久化 */
+  httpSecret: v.optional(v.string()),
+  /** 设置后才注册 POST 接口，请求需携带 `Authorization: Bearer <token>`；未设置时只提供签名 GET */
+  httpToken: v.optional(v.string()),
+  httpMaxAge: v.optional(v.number(), DEFAULT_HTTP_MAX_AGE),
+  /** 图片节点可访问的主机，为空时不限制（仍受 imageDenyHosts 约束）；支持 `*.example.com` */
+  imageAllowHosts: v.optional(v.array(v.string()), []),
+  imageDenyHosts: v.optional(v.array(v.string()), DEFAULT_IMAGE_DENY_HOSTS),
+  imageMaxBytes: v.optional(v.number(), DEFAULT_IMAGE_MAX_BYTES),
+  imageTimeoutMs: v.optional(v.number(), DEFAULT_IMAGE_TIMEOUT),
+  imageMaxPixels: v.optional(v.number(), DEFAULT_IMAGE_MAX_PIXELS),
+  /** 允许图片节点读取本地文件；HTTP 接口发起的渲染始终禁止 */
+  imageAllowLocalFiles: v.optional(v.boolean(), false),
+  /** 允许访问解析到回环、私有或链路本地地址的主机 */
+  imageAllowPrivateNetwork: v.optional(v.boolean(), false),
+  /** 每个 worker 线程的图片解码缓存上限 */
+  imageCacheMaxBytes: v.optional(v.number(), DEFAULT_IMAGE_CACHE_BYTES),
 })
 
+export interface CanvasWorkerStats {
+  pool: {
+    threads: number
+    maxThreads: number
+    /** Tinypool 队列中的任务 */
+    queueSize: number
+    /** 等待调用方配额的任务 */
+    waiting: number
+    maxQueue: number
+    completed: number
+  }
+  metrics: RenderMetricsSnapshot
+  cache: RenderCacheStats | null
+  templates: string[]
+  at: number
+}
+
+type CanvasWorkerSetting = {
+  id: string
+  value: string
+}
+
 const workerEntryCandidates = ['worker.js', 'worker.mjs']
 
 function resolveWorkerEntrypoint(): string {
@@ -67,6 +215,26 @@ function resolveWorkerEntrypoint(): string {
   )
 }
 
+/** 只有显式的 0 表示不限制；其余无效值回退到默认超时，避免误传时悄悄失去超时 */
+function resolveTimeout(timeoutMs: number | undefined, fallback: number): number {
+  return timeoutMs !== undefined && Number.isFinite(timeoutMs) && timeoutMs >= 0 ? timeoutMs : fallback
+}
+
+function toErrorInfo(reason: unknown): BatchErrorInfo {
+  const err = reason instanceof Error ? reason : new Error(String(reason))
+  return { name: err.name, message: err.message }
+}
+
+function pickCall(options: RenderCallOptions): RenderCallOptions {
+  return { cache: options.cache, signal: options.signal, timeoutMs: options.timeoutMs }
+}
+
+function toScene(output: TemplateOutput): RenderScene {
+  if (Array.isArray(output)) return { kind: 'nodes', nodes: output }
+  if ('kind' in output) return output
+  return { kind: 'nodes', nodes: [output] }
+}
+
 @Plugin({ name: 'CanvasWorker', type: 'service' })
 export class CanvasWorker extends BasePlugin {
   @Config(CfgSchema)
@@ -74,7 +242,13 @@ export class CanvasWorker extends BasePlugin {
 
   private pool: Tinypool | null = null
   private fontBootstrap: FontBootstrap | null = null
+  private cache: RenderCache | null = null
+  private cacheSweepTimer: ReturnType<typeof setInterval> | null = null
+  private readonly templates = new Map<string, TemplateDefinition>()
+  private readonly quota = new CallerQuota((caller) => this.callerLimit(caller))
   private readonly workerEntrypoint = resolveWorkerEntrypoint()
+  private httpSecret: string | null = null
+  private readonly metrics = new RenderMetrics({ windowMs: METRICS_WINDOW, maxSamples: METRICS_MAX_SAMPLES })
 
   constructor(private readonly fontManager: FontManager) {
     super()
@@ -83,6 +257,22 @@ export class CanvasWorker extends BasePlugin {
   override async init(): Promise<void> {
     await this.refreshFontBootstrap()
     this.ensurePool()
+    this.cache = this.createCache()
+    const cache = this.cache
+    if (cache) {
+      this.cacheSweepTimer = setInterval(() => void cache.sweep(), CACHE_SWEEP_INTERVAL)
+    }
+    const offFonts = this.fontManager.onFontsChanged((event) => {
+      void this.handleFontsChanged(event.action)
+    })
+    this.ctx.scope.collectEffect(offFonts)
+    this.ctx.extensionService.register({ entryPath: './ui/index.tsx' })
+    this.ctx.rpc.registerExtension(() => new CanvasWorkerRpc(this))
+    this.ctx.sse.registerExtension(() => this.createSseHandler())
+    if (this.config.httpEnabled) {
+      this.httpSecret = await this.loadHttpSecret()
+      this.registerHttpRoutes()
+    }
     this.ctx.logger.info('[CanvasWorker] ready')
   }
 
@@ -91,53 +281,108 @@ export class CanvasWorker extends BasePlugin {
       await this.pool.destroy()
       this.pool = null
     }
+    if (this.cacheSweepTimer) {
+      clearInterval(this.cacheSweepTimer)
+      this.cacheSweepTimer = null
+    }
+    this.cache = null
     this.ctx.logger.info('[CanvasWorker] stopped')
   }
 
   async renderLeafImage(request: LeafRenderRequest): Promise<RenderedImage> {
     const payload = this.buildLeafPayloadFromRequest(request)
-    const raw = await this.renderLeaf(payload)
+    const raw = await this.renderLeaf(payload, pickCall(request))
     return this.toRenderedImage(raw, request.returnDataURL)
   }
 
   async renderEchartsChart(request: EchartsRenderRequest): Promise<RenderedImage> {
     const payload = this.buildEchartsPayloadFromRequest(request)
-    const raw = await this.renderEcharts(payload)
+    const raw = await this.renderEcharts(payload, pickCall(request))
+    return this.toRenderedImage(raw, request.returnDataURL)
+  }
+
+  async renderAnimation(request: AnimationRenderRequest): Promise<RenderedImage> {
+    const caller = this.callerId()
+    const payload = this.buildAnimationPayloadFromRequest(request)
+    const fonts = await this.getFontBootstrap()
+    const job: WorkerJob = { kind: 'animation', payload, fonts, images: this.imagePolicy() }
+    const raw = await this.run(job, pickCall(request), caller)
     return this.toRenderedImage(raw, request.returnDataURL)
   }
 
-  async renderLeaf(payload: LeafRenderPayload): Promise<WorkerResult> {
+  /**
+   * 一次提交多项渲染：共用一次字体快照，任务并行分发到 pool，结果按输入顺序返回。
+   * 单项失败（含 maxQueue 拒绝）只体现在该项的 error 中，不会让整批失败。
+   */
+  async renderBatch(items: BatchRenderItem[], options: BatchRenderOptions = {}): Promise<BatchRenderResult> {
+    const caller = this.callerId()
     const fonts = await this.getFontBootstrap()
-    return this.run({ kind: 'leafui', payload, fonts })
+    const images = this.imagePolicy()
+
+    const settled = await Promise.allSettled(
+      items.map(async (item) => {
+        const job: WorkerJob =
+          item.kind === 'echarts'
+            ? { kind: 'echarts', payload: this.buildEchartsPayloadFromRequest(item), fonts, images }
+            : { kind: 'leafui', payload: this.buildLeafPayloadFromRequest(item), fonts, images }
+        const call: RenderCallOptions = {
+          cache: item.cache ?? options.cache,
+          signal: item.signal ?? options.signal,
+          timeoutMs: item.timeoutMs ?? options.timeoutMs,
+        }
+        const raw = await this.run(job, call, caller)
+        return this.toRenderedImage(raw, item.returnDataURL ?? options.returnDataURL)
+      }),
+    )
+    const results = settled.map((outcome, index): BatchItemResult => {
+      if (outcome.status === 'fulfilled') return { index, ok: true, image: outcome.value }
+      return { index, ok: false, error: toErrorInfo(outcome.reason) }
+    })
+
+    if (!options.sprite) return { items: results }
+    const sprite = options.sprite === true ? {} : options.sprite
+    try {
+      return { items: results, sprite: await this.composeSprite(results, sprite, pickCall(options), caller) }
+    } catch (err) {
+      // 拼图失败（尺寸超限、超时等）不丢弃已完成的单项结果
+      return { items: results, spriteError: toErrorInfo(err) }
+    }
+  }
+
+  async renderLeaf(payload: LeafRenderPayload, call: RenderCallOptions = {}): Promise<WorkerResult> {
+    const caller = this.callerId()
+    const fonts = await this.getFontBootstrap()
+    return this.run({ kind: 'leafui', payload, fonts, images: this.imagePolicy() }, call, caller)
   }
 
   async renderLeafNodes(
     nodes: RenderNode[],
-    options: LeafRenderOptions & { fontFamily?: string },
+    options: LeafRenderOptions & RenderCallOptions & { fontFamily?: string },
   ): Promise<WorkerResult> {
     const payload = this.buildLeafPayloadFromRequest({ ...options, nodes })
-    return this.renderLeaf(payload)
+    return this.renderLeaf(payload, pickCall(options))
   }
 
   async renderLeafScene(
     scene: RenderScene,
-    options: LeafRenderOptions & { fontFamily?: string },
+    options: LeafRenderOptions & RenderCallOptions & { fontFamily?: string },
   ): Promise<WorkerResult> {
     const payload = this.buildLeafPayloadFromRequest({ ...options, scene })
-    return this.renderLeaf(payload)
+    return this.renderLeaf(payload, pickCall(options))
   }
 
   async renderLeafTree(
     tree: LeaferTree,
-    options: LeafRenderOptions & { fontFamily?: string },
+    options: LeafRenderOptions & RenderCallOptions & { fontFamily?: string },
   ): Promise<WorkerResult> {
     const payload = this.buildLeafPayloadFromRequest({ ...options, tree })
-    return this.renderLeaf(payload)
+    return this.renderLeaf(payload, pickCall(options))
   }
 
-  async renderEcharts(payload: EchartsRenderPayload): Promise<WorkerResult> {
+  async renderEcharts(payload: EchartsRenderPayload, call: RenderCallOptions = {}): Promise<WorkerResult> {
+    const caller = this.callerId()
     const fonts = await this.getFontBootstrap()
-    return this.run({ kind: 'echarts', payload, fonts })
+    return this.run({ kind: 'echarts', payload, fonts, images: this.imagePolicy() }, call, caller)
   }
 
   async renderEchartsOption(
@@ -149,7 +394,8 @@ export class CanvasWorker extends BasePlugin {
       fontFamily?: string
       fontKey?: string
       themesDir?: string
-    } = {},
+    } & RenderOutputOptions &
+      RenderCallOptions = {},
   ): Promise<WorkerResult> {
     const payload = this.buildEchartsPayloadFromRequest({
       options,
@@ -159,21 +405,313 @@ export class CanvasWorker extends BasePlugin {
       fontFamily: overrides.fontFamily,
       fontKey: overrides.fontKey,
       themesDir: overrides.themesDir,
+      format: overrides.format,
+      quality: overrides.quality,
     })
-    return this.renderEcharts(payload)
+    return this.renderEcharts(payload, pickCall(overrides))
+  }
+
+  /**
+   * 注册命名模板（通常是 JSX 组件），随调用方插件卸载自动注销。同名模板后注册者覆盖。
+   */
+  registerTemplate<P>(name: string, template: TemplateRender<P> | TemplateDefinition<P>): () => void {
+    const definition: TemplateDefinition = typeof template === 'function' ? { render: template } : template
+    if (this.templates.has(name)) {
+      this.ctx.logger.warn(`[CanvasWorker] template "${name}" overridden`)
+    }
+    this.templates.set(name, definition)
+
+    const dispose = () => {
+      if (this.templates.get(name) === definition) this.templates.delete(name)
+    }
+    const scope = this.ctx.caller?.scope ?? this.ctx.scope
+    scope.collectEffect(dispose)
+    return dispose
+  }
+
+  listTemplates(): string[] {
+    return Array.from(this.templates.keys())
+  }
+
+  async renderTemplate<P>(name: string, props: P, options: TemplateRenderOptions = {}): Promise<RenderedImage> {
+    const template = this.templates.get(name)
+    if (!template) {
+      throw new Error(`[CanvasWorker] template not found: ${name}`)
+    }
+    const { render, ...defaults } = template
+    const scene = toScene(render(props))
+    return this.renderLeafImage({ ...defaults, ...options, scene })
+  }
+
+  /**
+   * 生成可直接用作 `<img src>` 的签名 GET 地址（相对路径）。expiresIn 为毫秒，不传则长期有效。
+   */
+  signRenderUrl(
+    kind: HttpRenderKind,
+    request: Omit<LeafRenderRequest, 'signal' | 'returnDataURL'> | Omit<EchartsRenderRequest, 'signal' | 'returnDataURL'>,
+    options: { expiresIn?: number } = {},
+  ): string {
+    if (!this.httpSecret) {
+      throw new Error('[CanvasWorker] HTTP endpoint is disabled')
+    }
+    const expiresAt = options.expiresIn ? Date.now() + options.expiresIn : undefined
+    const { d, s } = encodeSignedQuery(this.httpSecret, kind, request, expiresAt)
+    return `${this.httpRoute()}/${kind}?d=${d}&s=${s}`
+  }
+
+  getStats(): CanvasWorkerStats {
+    const pool = this.pool
+    return {
+      pool: {
+        threads: pool?.threads.length ?? 0,
+        maxThreads: this.resolveMaxThreads(),
+        queueSize: pool?.queueSize ?? 0,
+        waiting: this.quota.waiting,
+        maxQueue: this.config.maxQueue ?? DEFAULT_MAX_QUEUE,
+        completed: pool?.completed ?? 0,
+      },
+      metrics: this.metrics.snapshot(),
+      cache: this.getCacheStats(),
+      templates: this.listTemplates(),
+      at: Date.now(),
+    }
+  }
+
+  resetMetrics() {
+    this.metrics.reset()
+  }
+
+  getCacheStats(): RenderCacheStats | null {
+    return this.cache?.stats() ?? null
+  }
+
+  async clearCache(): Promise<void> {
+    await this.cache?.clear()
+  }
+
+  private createSseHandler() {
+    return (channel: SseChannel) => {
+      const push = () => channel.emit('stats', { type: 'stats', stats: this.getStats() })
+      push()
+      const timer = setInterval(push, STATS_PUSH_INTERVAL)
+      channel.onAbort(() => clearInterval(timer))
+      return () => clearInterval(timer)
+    }
+  }
+
+  private httpRoute() {
+    return (this.config.httpRoute ?? DEFAULT_HTTP_ROUTE).replace(/\/+$/, '')
+  }
+
+  private registerHttpRoutes() {
+    const base = this.httpRoute()
+    const maxAge = this.config.httpMaxAge ?? DEFAULT_HTTP_MAX_AGE
+    const token = this.config.httpToken
+    if (!token) {
+      this.ctx.logger.info(`[CanvasWorker] POST ${base}/* disabled: no httpToken configured`)
+    }
+    this.ctx.honoService.modifyApp((app) => {
+      for (const kind of ['leaf', 'echarts'] as const) {
+        if (token) {
+          app.post(`${base}/${kind}`, async (c) => {
+            if (c.req.header('authorization') !== `Bearer ${token}`) {
+              return c.json({ error: 'unauthorized' }, 401)
+            }
+            let body: unknown
+            try {
+              body = await c.req.json()
+            } catch {
+              return c.json({ error: 'invalid JSON body' }, 400)
+            }
+            return this.respondHttp(kind, body, c.req.header('if-none-match'), c.req.raw.signal, 'no-cache')
+          })
+        }
+
+        app.get(`${base}/${kind}`, async (c) => {
+          let body: unknown
+          try {
+            body = decodeSignedQuery(this.httpSecret!, kind, c.req.query('d'), c.req.query('s'))
+          } catch (err) {
+            if (err instanceof SignedQueryError) return c.json({ error: err.message }, 403)
+            throw err
+          }
+          return this.respondHttp(
+            kind,
+            body,
+            c.req.header('if-none-match'),
+            c.req.raw.signal,
+            `public, max-age=${maxAge}`,
+          )
+        })
+      }
+    })
+  }
+
+  private async respondHttp(
+    kind: HttpRenderKind,
+    body: unknown,
+    ifNoneMatch: string | undefined,
+    signal: AbortSignal,
+    cacheControl: string,
+  ): Promise<Response> {
+    const parsed = v.safeParse(HTTP_REQUEST_SCHEMAS[kind], body)
+    if (!parsed.success) {
+      return Response.json({ error: 'invalid request', issues: v.flatten(parsed.issues) }, { status: 400 })
+    }
+
+    // ETag 由请求内容与字体版本决定，命中时无需渲染；cache/timeoutMs 不影响输出，排除在外
+    const { cache: _cache, timeoutMs: _timeout, ...content } = parsed.output
+    const fonts = await this.getFontBootstrap()
+    const digest = createHash('sha256')
+      .update(kind)
+      .update('\0')
+      .update(fontBootstrapKey(fonts))
+      .update('\0')
+      .update(stableStringify(content))
+      .digest('base64url')
+    const headers: Record<string, string> = { ETag: `"${digest.slice(0, 32)}"`, 'Cache-Control': cacheControl }
+    if (matchesETag(ifNoneMatch, headers.ETag)) {
+      return new Response(null, { status: 304, headers })
+    }
+
+    try {
+      const request = {
+        ...parsed.output,
+        signal,
+        timeoutMs: this.externalTimeout(parsed.output.timeoutMs),
+      } as LeafRenderRequest | EchartsRenderRequest
+      const image = await this.renderHttpImage(kind, request)
+      return new Response(image.buffer, {
+        status: 200,
+        headers: { ...headers, 'Content-Type': image.mime, 'Content-Length': String(image.buffer.byteLength) },
+      })
+    } catch (err) {
+      if (err instanceof QueueFullError) {
+        return Response.json({ error: err.message }, { status: 503, headers: { 'Retry-After': '1' } })
+      }
+      if (err instanceof RenderTimeoutError) {
+        return Response.json({ error: err.message }, { status: 504 })
+      }
+      if (signal.aborted) {
+        return new Response(null, { status: 499 })
+      }
+      this.ctx.logger.warn(err, `[CanvasWorker] HTTP ${kind} render failed`)
+      // 错误信息可能包含文件是否存在、内网地址等细节，只记录在日志中
+      return Response.json({ error: 'render failed' }, { status: 500 })
+    }
+  }
+
+  /** HTTP/RPC 请求给出的 timeoutMs 不能超过 defaultTimeoutMs */
+  externalTimeout(timeoutMs: number | undefined): number | undefined {
+    return clampRequestTimeout(timeoutMs, this.config.defaultTimeoutMs ?? DEFAULT_TIMEOUT)
+  }
+
+  /** HTTP 请求体不可信：无论配置如何都不允许读取本地文件 */
+  private async renderHttpImage(
+    kind: HttpRenderKind,
+    request: LeafRenderRequest | EchartsRenderRequest,
+  ): Promise<RenderedImage> {
+    const caller = this.callerId()
+    const fonts = await this.getFontBootstrap()
+    const images = { ...this.imagePolicy(), allowLocalFiles: false }
+    const job: WorkerJob =
+      kind === 'leaf'
+        ? { kind: 'leafui', payload: this.buildLeafPayloadFromRequest(request as LeafRenderRequest), fonts, images }
+        : {
+            kind: 'echarts',
+            payload: this.buildEchartsPayloadFromRequest(request as EchartsRenderRequest),
+            fonts,
+            images,
+          }
+    const raw = await this.run(job, pickCall(request), caller)
+    return this.toRenderedImage(raw)
+  }
+
+  private async loadHttpSecret(): Promise<string> {
+    if (this.config.httpSecret) return this.config.httpSecret
+    const settings = new Collection<CanvasWorkerSetting, string, CanvasWorkerSetting>({
+      name: 'canvas-worker-settings',
+      persistence: await this.ctx.pluginData.persistenceForCollection<CanvasWorkerSetting>('settings'),
+    })
+    const [existing] = await settings.find({ id: 'http-secret' })
+    if (existing?.value) return existing.value
+    const value = randomBytes(32).toString('base64url')
+    await settings.insert({ id: 'http-secret', value })
+    return value
   }
 
   private buildLeafPayloadFromRequest(request: LeafRenderRequest): LeafRenderPayload {
     const width = request.width ?? this.config.defaultWidth ?? DEFAULT_WIDTH
     const height = request.height ?? this.config.defaultHeight ?? DEFAULT_HEIGHT
     const scene = request.scene ?? (request.nodes ? { kind: 'nodes', nodes: request.nodes } : undefined)
+    const { format, quality } = this.resolveOutput(request)
+    if (format === 'svg') {
+      throw new Error('[CanvasWorker] svg output is only supported for ECharts renders')
+    }
     return {
       width,
       height,
       background: request.background ?? null,
       fontFamily: this.resolveFontFamily(request.fontFamily, request.fontKey),
-      scene,
+      scene: this.resolveSceneFonts(scene),
       tree: request.tree,
+      format,
+      quality,
+    }
+  }
+
+  private buildAnimationPayloadFromRequest(request: AnimationRenderRequest): AnimationRenderPayload {
+    const format = request.format ?? 'gif'
+    if (!ANIMATION_FORMATS.includes(format)) {
+      throw new Error(`[CanvasWorker] unsupported animation format: ${format}`)
+    }
+
+    let frames: AnimationRenderPayload['frames']
+    let frameCount: number
+    const timeline = request.timeline?.length ? request.timeline : undefined
+    if (request.frames?.length) {
+      if (timeline) {
+        throw new Error('[CanvasWorker] frames and timeline cannot be combined')
+      }
+      frames = request.frames.map((frame) => ({
+        scene: this.resolveSceneFonts(frame.scene ?? (frame.nodes ? { kind: 'nodes', nodes: frame.nodes } : undefined)),
+        tree: frame.tree,
+      }))
+      frameCount = frames.length
+    } else {
+      const scene = request.scene ?? (request.nodes ? { kind: 'nodes', nodes: request.nodes } : undefined)
+      if (scene?.kind !== 'nodes' || !timeline) {
+        throw new Error('[CanvasWorker] animation requires frames, or nodes with a timeline')
+      }
+      frames = [{ scene: this.resolveSceneFonts(scene) }]
+      frameCount =
+        request.frameCount ?? Math.max(...timeline.flatMap((track) => track.keyframes.map((key) => key.frame))) + 1
+    }
+
+    const maxFrames = this.config.maxAnimationFrames ?? DEFAULT_MAX_FRAMES
+    if (!Number.isFinite(frameCount) || frameCount < 1 || frameCount > maxFrames) {
+      throw new Error(`[CanvasWorker] animation frame count must be between 1 and ${maxFrames}, got ${frameCount}`)
+    }
+
+    // 多数浏览器会把低于 20ms 的 GIF 帧间隔当作 100ms 播放
+    const fps = request.fps ?? this.config.defaultFps ?? DEFAULT_FPS
+    const baseDelay = Math.max(20, Math.round(request.delay ?? 1000 / fps))
+    const delays = Array.from({ length: Math.floor(frameCount) }, (_, index) =>
+      Math.max(20, Math.round(request.frames?.[index]?.delay ?? baseDelay)),
+    )
+    const quality = request.quality ?? this.config.defaultQuality
+
+    return {
+      width: request.width ?? this.config.defaultWidth ?? DEFAULT_WIDTH,
+      height: request.height ?? this.config.defaultHeight ?? DEFAULT_HEIGHT,
+      background: request.background ?? null,
+      fontFamily: this.resolveFontFamily(request.fontFamily, request.fontKey),
+      frames,
+      timeline,
+      delays,
+      format,
+      quality: quality === undefined ? undefined : Math.min(100, Math.max(0, quality)),
+      repeat: Math.max(0, Math.floor(request.repeat ?? 0)),
     }
   }
 
@@ -189,12 +727,45 @@ export class CanvasWorker extends BasePlugin {
       fontFamily: this.resolveFontFamily(request.fontFamily, request.fontKey),
       options: request.options,
       themesDir: this.resolveThemesDir(request.themesDir),
+      ...this.resolveOutput(request),
     }
   }
 
+  private resolveOutput(request: RenderOutputOptions): { format: RenderFormat; quality?: number } {
+    const format = request.format ?? this.config.defaultFormat ?? DEFAULT_FORMAT
+    if (!RENDER_FORMATS.includes(format)) {
+      throw new Error(`[CanvasWorker] unsupported output format: ${format}`)
+    }
+    const quality = request.quality ?? this.config.defaultQuality
+    return { format, quality: quality === undefined ? undefined : Math.min(100, Math.max(0, quality)) }
+  }
+
+  /** 拼图本身也是一次 leaf 渲染：各结果作为字节图片节点放入网格 */
+  private async composeSprite(
+    results: BatchItemResult[],
+    options: SpriteOptions,
+    call: RenderCallOptions,
+    caller: string,
+  ): Promise<SpriteSheet> {
+    const { width, height, cells, nodes } = layoutSprite(results, options)
+    const payload = this.buildLeafPayloadFromRequest({
+      width,
+      height,
+      background: options.background,
+      format: options.format,
+      quality: options.quality,
+      nodes,
+    })
+    const fonts = await this.getFontBootstrap()
+    // 图片字节来自本次渲染，不受外部图片大小限制；内容每次都不同，不进缓存
+    const images = { ...this.imagePolicy(), maxBytes: Number.POSITIVE_INFINITY }
+    const raw = await this.dispatch({ kind: 'leafui', payload, fonts, images }, call, caller)
+    return { ...this.toRenderedImage(raw, options.returnDataURL), cells }
+  }
+
   private toRenderedImage(raw: WorkerRenderResult, includeDataURL?: boolean): RenderedImage {
     const buffer = Buffer.from(raw.buffer)
-    const mime = 'image/png'
+    const mime = FORMAT_MIME[raw.meta.format] ?? FORMAT_MIME.png
     return {
       buffer,
       mime,
@@ -204,6 +775,19 @@ export class CanvasWorker extends BasePlugin {
     }
   }
 
+  private imagePolicy(): ImagePolicy {
+    return {
+      allowHosts: this.config.imageAllowHosts ?? [],
+      denyHosts: this.config.imageDenyHosts ?? DEFAULT_IMAGE_DENY_HOSTS,
+      maxBytes: this.config.imageMaxBytes ?? DEFAULT_IMAGE_MAX_BYTES,
+      timeoutMs: this.config.imageTimeoutMs ?? DEFAULT_IMAGE_TIMEOUT,
+      maxPixels: this.config.imageMaxPixels ?? DEFAULT_IMAGE_MAX_PIXELS,
+      allowLocalFiles: this.config.imageAllowLocalFiles ?? false,
+      allowPrivateNetwork: this.config.imageAllowPrivateNetwork ?? false,
+      cacheMaxBytes: this.config.imageCacheMaxBytes ?? DEFAULT_IMAGE_CACHE_BYTES,
+    }
+  }
+
   private resolveThemesDir(customDir?: string) {
     const dir = customDir ?? this.config.defaultThemesDir ?? DEFAULT_THEMES_DIR
     if (!dir) return undefined
@@ -217,14 +801,147 @@ export class CanvasWorker extends BasePlugin {
     return this.fontManager.resolveFontFamily(preferred, key)
   }
 
-  private async run(job: WorkerJob): Promise<WorkerRenderResult> {
-    this.ensurePool()
-    return this.pool!.run(job)
+  /** 节点上的 fontKey 需要 FontManager，在主线程解析为 fontFamily 后再交给 worker */
+  private resolveSceneFonts<T extends RenderScene | undefined>(scene: T): T {
+    if (scene?.kind !== 'nodes') return scene
+    let emojiFontFamily: string | undefined
+    const emoji = () => {
+      if (emojiFontFamily === undefined) {
+        const stack = this.fontManager.getFontStack('emoji').filter((name) => name !== 'sans-serif')
+        emojiFontFamily = (stack.length ? stack : DEFAULT_EMOJI_FONTS)
+          .map((name) => (/[\s"]/u.test(name) ? `"${name.replaceAll('"', '\\"')}"` : name))
+          .join(', ')
+      }
+      return emojiFontFamily
+    }
+    const family = (fontFamily?: string, fontKey?: string) =>
+      fontKey ? this.fontManager.resolveFontFamily(fontFamily, fontKey) : fontFamily
+
+    const visit = (node: RenderNode): RenderNode => {
+      const children = node.children?.map(visit)
+      switch (node.type) {
+        case 'text':
+          return { ...node, children, fontFamily: family(node.fontFamily, node.fontKey) }
+        case 'richtext':
+          return {
+            ...node,
+            children,
+            fontFamily: family(node.fontFamily, node.fontKey),
+            emojiFontFamily: node.emojiFontFamily ?? emoji(),
+            spans: node.spans.map((span) => ({ ...span, fontFamily: family(span.fontFamily, span.fontKey) })),
+          }
+        default:
+          return children ? ({ ...node, children } as RenderNode) : node
+      }
+    }
+    return { ...scene, nodes: scene.nodes.map(visit) } as T
+  }
+
+  private async run(job: WorkerJob, call: RenderCallOptions, caller: string): Promise<WorkerRenderResult> {
+    const cache = this.cache
+    if (!cache) return this.dispatch(job, call, caller)
+    const key = renderCacheKey(job)
+    // 同 key 的并发请求共享一次渲染，但各自按自己的 signal/超时等待并占用自己的配额
+    return this.guard(job.kind, call, caller, (signal) =>
+      cache.resolve(key, call.cache, (shared) => this.execute(job, shared, caller), signal),
+    )
+  }
+
+  private dispatch(job: WorkerJob, call: RenderCallOptions, caller: string): Promise<WorkerRenderResult> {
+    return this.guard(job.kind, call, caller, (signal) => this.execute(job, signal, caller))
+  }
+
+  /** 按调用方检查队列上限、施加超时并占用配额后执行 task */
+  private async guard<T>(
+    kind: WorkerJob['kind'],
+    call: RenderCallOptions,
+    caller: string,
+    task: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    call.signal?.throwIfAborted()
+    const maxQueue = this.config.maxQueue ?? DEFAULT_MAX_QUEUE
+    if (maxQueue > 0 && this.pendingJobs() >= maxQueue) {
+      this.metrics.reject(kind, caller)
+      throw new QueueFullError(maxQueue, caller)
+    }
+
+    const timeoutMs = resolveTimeout(call.timeoutMs, resolveTimeout(this.config.defaultTimeoutMs, DEFAULT_TIMEOUT))
+    const controller = new AbortController()
+    const onAbort = () => controller.abort(call.signal?.reason)
+    call.signal?.addEventListener('abort', onAbort, { once: true })
+    const timer =
+      timeoutMs > 0 ? setTimeout(() => controller.abort(new RenderTimeoutError(kind, timeoutMs)), timeoutMs) : null
+
+    try {
+      const release = await this.quota.acquire(caller, controller.signal)
+      try {
+        return await task(controller.signal)
+      } finally {
+        release()
+      }
+    } catch (err) {
+      // Tinypool 中止时抛出自身的 AbortError，统一换成调用方可识别的原因
+      if (controller.signal.aborted) throw controller.signal.reason
+      throw err
+    } finally {
+      if (timer) clearTimeout(timer)
+      call.signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  private async execute(job: WorkerJob, signal: AbortSignal | undefined, caller: string): Promise<WorkerRenderResult> {
+    const started = Date.now()
+    try {
+      this.ensurePool()
+      const result: WorkerRenderResult = await this.pool!.run(job, { signal })
+      this.metrics.record(job.kind, caller, Date.now() - started, true)
+      return result
+    } catch (err) {
+      this.metrics.record(job.kind, caller, Date.now() - started, false)
+      throw err
+    }
+  }
+
+  /** 尚未开始执行的任务：等待调用方配额的 + Tinypool 队列中的 */
+  private pendingJobs(): number {
+    return this.quota.waiting + (this.pool?.queueSize ?? 0)
+  }
+
+  private callerId(): string {
+    return this.ctx.caller?.pluginInfo?.id ?? 'anonymous'
+  }
+
+  private callerLimit(caller: string): number {
+    return this.config.callerQuotas?.[caller] ?? this.config.callerConcurrency ?? 0
+  }
+
+  private createCache(): RenderCache | null {
+    if (!this.config.cacheEnabled) return null
+    return new RenderCache(
+      {
+        maxEntries: this.config.cacheMaxEntries ?? DEFAULT_CACHE_MAX_ENTRIES,
+        maxBytes: this.config.cacheMaxBytes ?? DEFAULT_CACHE_MAX_BYTES,
+        ttlMs: this.config.cacheTtlMs ?? DEFAULT_CACHE_TTL,
+        diskDir: this.config.cacheDisk ? this.cacheDir() : undefined,
+        maxDiskBytes: this.config.cacheMaxDiskBytes ?? DEFAULT_CACHE_MAX_DISK_BYTES,
+      },
+      (err, message) => this.ctx.logger.warn(err, message),
+    )
+  }
+
+  /** 未配置时放在按插件 id 区分的数据目录下，避免多个实例共用 */
+  private cacheDir() {
+    const dir = this.config.cacheDir ?? path.join('data', this.ctx.pluginInfo.id, 'render-cache')
+    return path.resolve(process.cwd(), dir)
+  }
+
+  private resolveMaxThreads() {
+    return this.config.maxThreads ?? Math.max(1, (os.availableParallelism?.() ?? os.cpus().length) - 1)
   }
 
   private ensurePool() {
     if (this.pool) return
-    const maxThreads = this.config.maxThreads ?? Math.max(1, (os.availableParallelism?.() ?? os.cpus().length) - 1)
+    const maxThreads = this.resolveMaxThreads()
     const idleTimeout = this.config.idleTimeout ?? DEFAULT_IDLE_TIMEOUT
 
     this.pool = new Tinypool({
@@ -236,6 +953,32 @@ export class CanvasWorker extends BasePlugin {
     })
   }
 
+  private async handleFontsChanged(action: string) {
+    // 偏好只影响主线程解析出的 fontFamily，已体现在 payload 中，无需推送
+    if (action === 'preferences') return
+    await this.refreshFontBootstrap()
+    await this.broadcastFonts()
+  }
+
+  /**
+   * Tinypool 没有广播接口：按线程数并发投递同步任务，concurrentTasksPerWorker=1 时会尽量落到每个线程。
+   * 漏掉的线程会在下一次渲染时通过 job.fonts 增量补齐。
+   */
+  private async broadcastFonts() {
+    const pool = this.pool
+    if (!pool || pool.threads.length === 0) return
+    const job: FontSyncJob = { kind: 'fonts', fonts: this.fontBootstrap ?? undefined }
+    const results = await Promise.allSettled(
+      pool.threads.map(() => pool.run(job) as Promise<FontSyncResult>),
+    )
+    const loaded = results.reduce((sum, item) => sum + (item.status === 'fulfilled' ? item.value.loaded : 0), 0)
+    const failed = results.filter((item) => item.status === 'rejected').length
+    if (failed) {
+      this.ctx.logger.warn(`[CanvasWorker] font sync failed on ${failed} worker(s)`)
+    }
+    this.ctx.logger.debug(`[CanvasWorker] pushed font bootstrap to ${results.length} worker(s), ${loaded} source(s) loaded`)
+  }
+
   private async getFontBootstrap(): Promise<FontBootstrap | undefined> {
     if (!this.fontBootstrap) {
       await this.refreshFontBootstrap()
@@ -251,7 +994,7 @@ export class CanvasWorker extends BasePlugin {
         if (!src.path || (src.type !== 'dir' && src.type !== 'file')) continue
         sources.push({ path: src.path, alias: src.alias, type: src.type })
       }
-      this.fontBootstrap = sources.length ? { sources } : null
+      this.fontBootstrap = sources.length ? { sources, revision: snapshot.lastLoadedAt } : null
     } catch (err) {
       this.ctx.logger.warn(err, '[CanvasWorker] failed to build font bootstrap')
       this.fontBootstrap = null
@@ -259,7 +1002,77 @@ export class CanvasWorker extends BasePlugin {
   }
 }
 
+export class CanvasWorkerRpc extends RpcTarget {
+  constructor(private readonly plugin: CanvasWorker) {
+    super()
+  }
+
+  stats() {
+    return this.plugin.getStats()
+  }
+
+  resetMetrics() {
+    this.plugin.resetMetrics()
+  }
+
+  clearCache() {
+    return this.plugin.clearCache()
+  }
+
+  templates() {
+    return this.plugin.listTemplates()
+  }
+
+  /** playground 用：请求体与 HTTP 接口使用同一套校验 */
+  async renderLeaf(request: unknown) {
+    const parsed = v.parse(LeafHttpRequestSchema, request)
+    const image = await this.plugin.renderLeafImage({
+      ...(parsed as LeafRenderRequest),
+      timeoutMs: this.plugin.externalTimeout(parsed.timeoutMs),
+      returnDataURL: true,
+    })
+    return { dataURL: image.dataURL!, mime: image.mime, durationMs: image.durationMs, meta: image.meta }
+  }
+
+  async renderEcharts(request: unknown) {
+    const parsed = v.parse(EchartsHttpRequestSchema, request)
+    const image = await this.plugin.renderEchartsChart({
+      ...(parsed as EchartsRenderRequest),
+      timeoutMs: this.plugin.externalTimeout(parsed.timeoutMs),
+      returnDataURL: true,
+    })
+    return { dataURL: image.dataURL!, mime: image.mime, durationMs: image.durationMs, meta: image.meta }
+  }
+}
+
+declare module '@pluxel/hmr/services' {
+  interface RpcExtensions {
+    CanvasWorker: CanvasWorkerRpc
+  }
+
+  interface SseEvents {
+    CanvasWorker: { type: 'stats'; stats: CanvasWorkerStats }
+  }
+}
+
+export type { RenderCacheStats } from './render-cache'
+export type { RenderMetricsSnapshot, RenderMetricsSummary } from './metrics'
 export type {
+  AnimationFormat,
+  AnimationFrame,
+  AnimationKeyframe,
+  AnimationRenderRequest,
+  AnimationTrack,
+  BatchErrorInfo,
+  BatchItemResult,
+  BatchRenderItem,
+  BatchRenderOptions,
+  BatchRenderResult,
+  Easing,
+  RenderCacheMode,
+  RenderCallOptions,
+  RenderFormat,
+  RenderOutputOptions,
   RenderNode,
   RenderScene,
   LeafRenderPayload,
@@ -269,5 +1082,11 @@ export type {
   EchartsRenderPayload,
   EchartsRenderRequest,
   RenderedImage,
+  SpriteCell,
+  SpriteOptions,
+  SpriteSheet,
+  TemplateDefinition,
+  TemplateRender,
+  TemplateRenderOptions,
   WorkerResult,
 } from './types'
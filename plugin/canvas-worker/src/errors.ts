@@ -0,0 +1,23 @@
+/** 排队中的任务数已达 maxQueue，新任务被直接拒绝 */
+export class QueueFullError extends Error {
+  override readonly name = 'QueueFullError'
+
+  constructor(
+    readonly limit: number,
+    readonly caller?: string,
+  ) {
+    super(`[CanvasWorker] render queue is full (${limit} pending)`)
+  }
+}
+
+/** 任务在 timeoutMs 内未完成；运行中的 worker 会被终止 */
+export class RenderTimeoutError extends Error {
+  override readonly name = 'RenderTimeoutError'
+
+  constructor(
+    readonly kind: string,
+    readonly timeoutMs: number,
+  ) {
+    super(`[CanvasWorker] ${kind} render timed out after ${timeoutMs}ms`)
+  }
+}
@@ -0,0 +1,159 @@
+import { Buffer } from 'node:buffer'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { deflateRawSync, inflateRawSync } from 'node:zlib'
+
+import { v } from '@pluxel/hmr/config'
+
+import type { RenderNode } from './types'
+
+export type HttpRenderKind = 'leaf' | 'echarts'
+
+/** 单边像素上限，防止通过 HTTP 申请超大画布 */
+export const MAX_HTTP_SIZE = 4096
+/** 解压后的签名 payload 上限 */
+const MAX_PAYLOAD_BYTES = 1024 * 1024
+
+const NODE_TYPES = [
+  'rect',
+  'text',
+  'image',
+  'group',
+  'box',
+  'path',
+  'ellipse',
+  'line',
+  'polygon',
+  'star',
+  'richtext',
+] as const satisfies readonly RenderNode['type'][]
+
+// RenderNode 新增节点类型时这里会报错，提醒同步 NODE_TYPES
+const _nodeTypesExhaustive: Exclude<RenderNode['type'], (typeof NODE_TYPES)[number]> extends never ? true : never = true
+
+/** HTTP 请求中的节点：只约束类型与 children 结构，其余属性交给 worker 按 RenderNode 解释 */
+export type HttpRenderNode = {
+  type: RenderNode['type']
+  id?: RenderNode['id']
+  children?: HttpRenderNode[]
+  [key: string]: unknown
+}
+
+const RenderNodeSchema: v.GenericSchema<HttpRenderNode> = v.lazy(() =>
+  v.looseObject({
+    type: v.picklist(NODE_TYPES),
+    id: v.optional(v.string()),
+    children: v.optional(v.array(RenderNodeSchema)),
+  }),
+)
+
+const SizeSchema = v.optional(v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(MAX_HTTP_SIZE)))
+const QualitySchema = v.optional(v.pipe(v.number(), v.minValue(0), v.maxValue(100)))
+const CacheModeSchema = v.optional(v.picklist(['bypass', 'refresh']))
+/** 进程内调用可用 0 表示不限制，外部请求至少为 1ms，并由 clampRequestTimeout 限制上限 */
+const TimeoutSchema = v.optional(v.pipe(v.number(), v.integer(), v.minValue(1)))
+
+/**
+ * LeafRenderRequest 中可经 HTTP 传入的部分；signal/returnDataURL 只对进程内调用有意义
+ */
+export const LeafHttpRequestSchema = v.object({
+  width: SizeSchema,
+  height: SizeSchema,
+  background: v.optional(v.nullable(v.string())),
+  fontFamily: v.optional(v.string()),
+  fontKey: v.optional(v.string()),
+  format: v.optional(v.picklist(['png', 'jpeg', 'webp', 'avif'])),
+  quality: QualitySchema,
+  scene: v.optional(
+    v.variant('kind', [
+      v.object({ kind: v.literal('nodes'), nodes: v.array(RenderNodeSchema) }),
+      v.object({ kind: v.literal('leafer-json'), json: v.unknown() }),
+    ]),
+  ),
+  tree: v.optional(v.looseObject({ children: v.optional(v.array(v.any())) })),
+  nodes: v.optional(v.array(RenderNodeSchema)),
+  cache: CacheModeSchema,
+  timeoutMs: TimeoutSchema,
+})
+
+/** 不开放 themesDir：它是服务器上的路径 */
+export const EchartsHttpRequestSchema = v.object({
+  options: v.record(v.string(), v.unknown()),
+  width: SizeSchema,
+  height: SizeSchema,
+  theme: v.optional(v.string()),
+  fontFamily: v.optional(v.string()),
+  fontKey: v.optional(v.string()),
+  format: v.optional(v.picklist(['png', 'jpeg', 'webp', 'avif', 'svg'])),
+  quality: QualitySchema,
+  cache: CacheModeSchema,
+  timeoutMs: TimeoutSchema,
+})
+
+/** 外部请求只能缩短超时：不超过 limit（服务端默认超时）；limit 为 0 表示服务端本身不限制 */
+export function clampRequestTimeout(requested: number | undefined, limit: number): number | undefined {
+  if (limit <= 0) return requested
+  return requested === undefined ? limit : Math.min(requested, limit)
+}
+
+export const HTTP_REQUEST_SCHEMAS = {
+  leaf: LeafHttpRequestSchema,
+  echarts: EchartsHttpRequestSchema,
+} as const
+
+/** 签名内容，exp 为毫秒时间戳 */
+type SignedEnvelope = { r: unknown; exp?: number }
+
+function sign(secret: string, kind: HttpRenderKind, data: string): string {
+  return createHmac('sha256', secret).update(`${kind}.${data}`).digest('base64url')
+}
+
+/** 请求体经 deflate + base64url 压缩后签名，得到可直接放进 `<img src>` 的 query */
+export function encodeSignedQuery(
+  secret: string,
+  kind: HttpRenderKind,
+  request: unknown,
+  expiresAt?: number,
+): { d: string; s: string } {
+  const envelope: SignedEnvelope = expiresAt ? { r: request, exp: expiresAt } : { r: request }
+  const d = deflateRawSync(Buffer.from(JSON.stringify(envelope), 'utf8')).toString('base64url')
+  return { d, s: sign(secret, kind, d) }
+}
+
+export class SignedQueryError extends Error {
+  override readonly name = 'SignedQueryError'
+}
+
+/** 校验签名与过期时间并解出原始请求体；失败时抛出 SignedQueryError */
+export function decodeSignedQuery(
+  secret: string,
+  kind: HttpRenderKind,
+  d: string | undefined,
+  s: string | undefined,
+): unknown {
+  if (!d || !s) throw new SignedQueryError('missing signed payload')
+  const expected = Buffer.from(sign(secret, kind, d))
+  const actual = Buffer.from(s)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new SignedQueryError('invalid signature')
+  }
+
+  let envelope: SignedEnvelope
+  try {
+    const json = inflateRawSync(Buffer.from(d, 'base64url'), { maxOutputLength: MAX_PAYLOAD_BYTES })
+    envelope = JSON.parse(json.toString('utf8')) as SignedEnvelope
+  } catch {
+    throw new SignedQueryError('malformed payload')
+  }
+  if (envelope.exp && envelope.exp < Date.now()) {
+    throw new SignedQueryError('signed url expired')
+  }
+  return envelope.r
+}
+
+/** 对 If-None-Match 做弱比较，支持逗号分隔的多个值与 `*` */
+export function matchesETag(header: string | undefined, etag: string): boolean {
+  if (!header) return false
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, '')
+  const target = normalize(etag)
+  return header.split(',').some((tag) => tag.trim() === '*' || normalize(tag) === target)
+}
@@ -0,0 +1,406 @@
+// @ts-check
+import { Buffer } from 'node:buffer'
+import { createHash } from 'node:crypto'
+import dns from 'node:dns/promises'
+import fs from 'node:fs/promises'
+import net from 'node:net'
+import { fileURLToPath } from 'node:url'
+
+import { Image as SkiaImage } from 'pluxel-plugin-napi-rs/canvas'
+
+/** @typedef {import('./types').ImagePolicy} ImagePolicy */
+/** @typedef {import('./types').RenderNode} RenderNode */
+
+/** 以字节数据注册的图片使用该协议的 key 作为 Leafer url */
+export const IMAGE_KEY_PREFIX = 'pluxel-image://'
+
+const MAX_REDIRECTS = 5
+
+/** @type {ImagePolicy} */
+export const DEFAULT_IMAGE_POLICY = {
+  allowHosts: [],
+  denyHosts: ['localhost', '127.0.0.1', '::1', '0.0.0.0', '169.254.169.254', '*.local', '*.internal'],
+  maxBytes: 10 * 1024 * 1024,
+  timeoutMs: 10_000,
+  maxPixels: 40_000_000,
+  allowLocalFiles: false,
+  allowPrivateNetwork: false,
+  cacheMaxBytes: 128 * 1024 * 1024,
+}
+
+/** 回环、私有、链路本地、组播等地址段；BlockList 会把 IPv4 映射的 IPv6 地址按 IPv4 规则匹配 */
+const PRIVATE_NETWORKS = new net.BlockList()
+for (const [address, prefix] of /** @type {const} */ ([
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+])) {
+  PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv4')
+}
+for (const [address, prefix] of /** @type {const} */ ([
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+])) {
+  PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv6')
+}
+
+/**
+ * @typedef {Object} CachedImage
+ * @property {any} image skia Image
+ * @property {number} size 解码后的估算字节数
+ */
+
+/** worker 内跨任务复用的解码结果，按策略指纹与来源区分；Map 插入顺序即 LRU 顺序 */
+const cache = {
+  /** @type {Map<string, CachedImage>} */
+  entries: new Map(),
+  bytes: 0,
+  /** @type {Map<string, Promise<any>>} */
+  inflight: new Map(),
+}
+
+export class ImageLoadError extends Error {
+  /**
+   * @param {string} source
+   * @param {string} reason
+   */
+  constructor(source, reason) {
+    super(`Failed to load image ${source.length > 80 ? `${source.slice(0, 77)}...` : source}: ${reason}`)
+    this.name = 'ImageLoadError'
+  }
+}
+
+/**
+ * 仅读取文件头获取尺寸，用于在解码前拒绝超大图；无法识别的格式返回 null
+ * @param {Buffer} buf
+ * @returns {{ width: number; height: number } | null}
+ */
+export function probeImageSize(buf) {
+  if (buf.length >= 24 && buf.readUInt32BE(0) === 0x89504e47) {
+    return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) }
+  }
+  if (buf.length >= 10 && buf.toString('ascii', 0, 3) === 'GIF') {
+    return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) }
+  }
+  if (buf.length >= 30 && buf.toString('ascii', 0, 4) === 'RIFF' && buf.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = buf.toString('ascii', 12, 16)
+    if (chunk === 'VP8X') return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 }
+    if (chunk === 'VP8 ') return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff }
+    if (chunk === 'VP8L') {
+      const bits = buf.readUInt32LE(21)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    return null
+  }
+  if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < buf.length) {
+      if (buf[offset] !== 0xff) return null
+      const marker = buf[offset + 1]
+      const length = buf.readUInt16BE(offset + 2)
+      // SOF0-SOF15，排除 DHT(C4)、JPG(C8)、DAC(CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: buf.readUInt16BE(offset + 7), height: buf.readUInt16BE(offset + 5) }
+      }
+      offset += 2 + length
+    }
+  }
+  return null
+}
+
+/**
+ * 支持精确匹配；`*.example.com` 匹配其任意子域名（不含 example.com 本身）
+ * @param {string} host
+ * @param {string[]} patterns
+ */
+export function matchHost(host, patterns) {
+  const normalized = host.toLowerCase().replace(/^\[|\]$/g, '')
+  return patterns.some((pattern) => {
+    const p = pattern.toLowerCase()
+    if (p.startsWith('*.')) return normalized.endsWith(p.slice(1))
+    return normalized === p
+  })
+}
+
+/**
+ * @param {string} address
+ */
+export function isPrivateAddress(address) {
+  const family = net.isIP(address)
+  if (!family) return false
+  return PRIVATE_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * 解析主机名并拒绝落在内网地址段的目标；URL 解析已把 0x7f000001、2130706433 等写法规范化为点分形式
+ * @param {URL} url
+ * @param {string} source
+ * @param {ImagePolicy} policy
+ */
+async function assertPublicHost(url, source, policy) {
+  if (policy.allowPrivateNetwork) return
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  /** @type {{ address: string }[]} */
+  let addresses
+  try {
+    addresses = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true })
+  } catch {
+    throw new ImageLoadError(source, `cannot resolve host ${host}`)
+  }
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address))
+  if (blocked) throw new ImageLoadError(source, `host ${host} resolves to private address ${blocked.address}`)
+}
+
+/**
+ * 影响图片能否加载的策略字段；不同策略的任务互不复用解码结果，
+ * 否则宽松策略加载过的图片会绕过后续任务的主机、本地文件与大小限制
+ * @param {ImagePolicy} policy
+ */
+function policyKey(policy) {
+  return JSON.stringify([
+    policy.allowHosts,
+    policy.denyHosts,
+    policy.maxBytes,
+    policy.maxPixels,
+    policy.allowLocalFiles,
+    policy.allowPrivateNetwork,
+  ])
+}
+
+/**
+ * @param {Uint8Array} bytes
+ */
+export function bytesKey(bytes) {
+  return `${IMAGE_KEY_PREFIX}${createHash('sha1').update(bytes).digest('hex')}`
+}
+
+/**
+ * @param {Response} response
+ * @param {number} maxBytes
+ * @param {string} source
+ */
+async function readLimited(response, maxBytes, source) {
+  const declared = Number(response.headers.get('content-length'))
+  if (declared > maxBytes) throw new ImageLoadError(source, `exceeds ${maxBytes} bytes`)
+  if (!response.body) return Buffer.alloc(0)
+
+  /** @type {Buffer[]} */
+  const chunks = []
+  let total = 0
+  for await (const chunk of /** @type {AsyncIterable<Uint8Array>} */ (/** @type {unknown} */ (response.body))) {
+    total += chunk.byteLength
+    if (total > maxBytes) throw new ImageLoadError(source, `exceeds ${maxBytes} bytes`)
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * @param {string} source
+ * @param {ImagePolicy} policy
+ * @param {number} [redirects]
+ * @returns {Promise<Buffer>}
+ */
+async function fetchBytes(source, policy, redirects = 0) {
+  if (source.startsWith('data:')) {
+    const comma = source.indexOf(',')
+    if (comma < 0) throw new ImageLoadError(source, 'malformed data URL')
+    const encoding = source.lastIndexOf('base64', comma) < 0 ? 'utf-8' : 'base64'
+    // base64 解码后约为 3/4，先按字符数粗略拦截
+    if ((source.length - comma) * 0.75 > policy.maxBytes) {
+      throw new ImageLoadError(source, `exceeds ${policy.maxBytes} bytes`)
+    }
+    const body = source.slice(comma + 1)
+    return encoding === 'base64' ? Buffer.from(body, 'base64') : Buffer.from(decodeURIComponent(body), 'utf-8')
+  }
+
+  if (/^https?:\/\//i.test(source)) {
+    const url = new URL(source)
+    if (matchHost(url.hostname, policy.denyHosts)) throw new ImageLoadError(source, `host ${url.hostname} is denied`)
+    if (policy.allowHosts.length && !matchHost(url.hostname, policy.allowHosts)) {
+      throw new ImageLoadError(source, `host ${url.hostname} is not allowed`)
+    }
+    // 重定向会递归回到这里，每一跳都重新检查
+    await assertPublicHost(url, source, policy)
+    let response
+    try {
+      // 重定向可能跳到被禁止的主机，这里不自动跟随
+      response = await fetch(url, { signal: AbortSignal.timeout(policy.timeoutMs), redirect: 'manual' })
+    } catch (err) {
+      const timedOut = /** @type {Error} */ (err)?.name === 'TimeoutError'
+      throw new ImageLoadError(source, timedOut ? `timed out after ${policy.timeoutMs}ms` : String(err))
+    }
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('location')
+      if (!location || redirects >= MAX_REDIRECTS) {
+        throw new ImageLoadError(source, `unfollowable redirect ${response.status}`)
+      }
+      return fetchBytes(new URL(location, url).href, policy, redirects + 1)
+    }
+    if (!response.ok) throw new ImageLoadError(source, `HTTP ${response.status}`)
+    return readLimited(response, policy.maxBytes, source)
+  }
+
+  if (!policy.allowLocalFiles) throw new ImageLoadError(source, 'local files are not allowed')
+  const file = source.startsWith('file:') ? fileURLToPath(source) : source
+  const stat = await fs.stat(file).catch(() => null)
+  if (!stat?.isFile()) throw new ImageLoadError(source, 'file not found')
+  if (stat.size > policy.maxBytes) throw new ImageLoadError(source, `exceeds ${policy.maxBytes} bytes`)
+  return fs.readFile(file)
+}
+
+/**
+ * @param {Buffer} bytes
+ * @param {string} source
+ * @param {ImagePolicy} policy
+ */
+async function decode(bytes, source, policy) {
+  const probed = probeImageSize(bytes)
+  if (probed && probed.width * probed.height > policy.maxPixels) {
+    throw new ImageLoadError(source, `${probed.width}x${probed.height} exceeds ${policy.maxPixels} pixels`)
+  }
+  const image = new SkiaImage()
+  await new Promise((resolve, reject) => {
+    image.onload = () => resolve(undefined)
+    image.onerror = (/** @type {unknown} */ err) => reject(new ImageLoadError(source, `decode failed: ${String(err)}`))
+    image.src = bytes
+  })
+  if (image.width * image.height > policy.maxPixels) {
+    throw new ImageLoadError(source, `${image.width}x${image.height} exceeds ${policy.maxPixels} pixels`)
+  }
+  return image
+}
+
+/**
+ * @param {string} key
+ * @param {any} image
+ * @param {ImagePolicy} policy
+ */
+function remember(key, image, policy) {
+  const size = image.width * image.height * 4
+  if (size > policy.cacheMaxBytes) return
+  forget(key)
+  cache.entries.set(key, { image, size })
+  cache.bytes += size
+  for (const oldest of cache.entries.keys()) {
+    if (cache.bytes <= policy.cacheMaxBytes) break
+    forget(oldest)
+  }
+}
+
+/** @param {string} key */
+function forget(key) {
+  const entry = cache.entries.get(key)
+  if (!entry) return
+  cache.entries.delete(key)
+  cache.bytes -= entry.size
+}
+
+/**
+ * 命中时刷新 LRU 位置
+ * @param {string} key
+ */
+function getCachedImage(key) {
+  const entry = cache.entries.get(key)
+  if (!entry) return null
+  cache.entries.delete(key)
+  cache.entries.set(key, entry)
+  return entry.image
+}
+
+/**
+ * 按策略加载并解码图片，结果按策略指纹与 url（字节数据按内容哈希）缓存。
+ * pinned 记录本任务中出现过的字节数据：字节 key 只在同一任务内有效，
+ * 解码缓存淘汰或图片超出缓存上限时据此重新解码。
+ * @param {string | Uint8Array} source
+ * @param {ImagePolicy} policy
+ * @param {Map<string, Uint8Array>} [pinned]
+ * @returns {Promise<{ key: string; image: any }>}
+ */
+export async function loadImageSource(source, policy, pinned) {
+  const key = typeof source === 'string' ? source : bytesKey(source)
+  if (typeof source !== 'string') pinned?.set(key, source)
+  if (typeof source === 'string' && source.startsWith(IMAGE_KEY_PREFIX)) {
+    const bytes = pinned?.get(source)
+    if (!bytes) throw new ImageLoadError(source, 'image bytes are not part of this job')
+    return loadImageSource(bytes, policy, pinned)
+  }
+  const cacheKey = `${policyKey(policy)}\n${key}`
+  const cached = getCachedImage(cacheKey)
+  if (cached) return { key, image: cached }
+
+  let pending = cache.inflight.get(cacheKey)
+  if (!pending) {
+    pending = (async () => {
+      const label = typeof source === 'string' ? source : `<${source.byteLength} bytes>`
+      if (typeof source !== 'string' && source.byteLength > policy.maxBytes) {
+        throw new ImageLoadError(label, `exceeds ${policy.maxBytes} bytes`)
+      }
+      const bytes =
+        typeof source === 'string'
+          ? await fetchBytes(source, policy)
+          : Buffer.from(source.buffer, source.byteOffset, source.byteLength)
+      const image = await decode(bytes, label, policy)
+      remember(cacheKey, image, policy)
+      return image
+    })()
+    cache.inflight.set(cacheKey, pending)
+    pending.finally(() => cache.inflight.delete(cacheKey)).catch(() => {})
+  }
+  return { key, image: await pending }
+}
+
+/**
+ * 预加载场景中的图片节点：把字节数据替换为缓存 key，加载失败时按 optional 决定移除节点还是抛错。
+ * 返回新的节点数组，不修改输入。
+ * @param {RenderNode[]} nodes
+ * @param {ImagePolicy} policy
+ * @param {Map<string, Uint8Array>} [pinned]
+ * @returns {Promise<RenderNode[]>}
+ */
+export async function prepareImages(nodes, policy, pinned) {
+  /** @param {RenderNode} node @returns {Promise<RenderNode | null>} */
+  const visit = async (node) => {
+    if (node.type === 'image') {
+      const source = node.src ?? node.url
+      if (source === undefined) return node
+      try {
+        const { key } = await loadImageSource(source, policy, pinned)
+        return { ...node, src: undefined, url: key }
+      } catch (err) {
+        if (node.optional) return null
+        throw err
+      }
+    }
+    if (node.type === 'richtext') {
+      const spans = await Promise.all(
+        node.spans.map(async (span) => {
+          if (!span.image) return span
+          try {
+            const { key } = await loadImageSource(span.image.src, policy, pinned)
+            return { ...span, image: { ...span.image, src: key } }
+          } catch (err) {
+            if (span.image.optional) return { ...span, image: undefined }
+            throw err
+          }
+        }),
+      )
+      return { ...node, spans }
+    }
+    if (!node.children?.length) return node
+    const children = /** @type {RenderNode[]} */ ((await Promise.all(node.children.map(visit))).filter(Boolean))
+    return /** @type {RenderNode} */ ({ ...node, children })
+  }
+  return /** @type {RenderNode[]} */ ((await Promise.all(nodes.map(visit))).filter(Boolean))
+}
@@ -0,0 +1,81 @@
+import type { RenderNode, RenderNodeType } from './types'
+
+/**
+ * 将 JSX 编译为 RenderNode 的最小运行时。
+ * 在插件 tsconfig 中设置 `"jsx": "react-jsx", "jsxImportSource": "pluxel-plugin-canvas-worker"`，
+ * 或在单个文件头添加 `@jsxImportSource pluxel-plugin-canvas-worker` 注释。
+ */
+
+type NodeOf<K extends RenderNodeType> = Extract<RenderNode, { type: K }>
+
+export type JSXChild = RenderNode | string | number | boolean | null | undefined | JSXChild[]
+
+type IntrinsicProps<K extends RenderNodeType> = Omit<NodeOf<K>, 'type' | 'children'> & {
+  children?: JSXChild
+  key?: string | number
+}
+
+type TextIntrinsicProps = Omit<NodeOf<'text'>, 'type' | 'children' | 'text'> & {
+  /** 未提供时取子节点中的字符串拼接 */
+  text?: string
+  children?: JSXChild
+  key?: string | number
+}
+
+type IntrinsicMap = { [K in Exclude<RenderNodeType, 'text'>]: IntrinsicProps<K> } & { text: TextIntrinsicProps }
+
+export type Component<P = Record<string, unknown>> = (props: P & { children?: JSXChild }) => JSX.Element
+
+export const Fragment = Symbol.for('pluxel.canvas-worker.fragment')
+
+export namespace JSX {
+  export type Element = RenderNode | RenderNode[]
+  export interface ElementChildrenAttribute {
+    children: {}
+  }
+  export interface IntrinsicElements extends IntrinsicMap {}
+}
+
+function flattenNodes(children: JSXChild): RenderNode[] {
+  if (children === null || children === undefined || typeof children === 'boolean') return []
+  if (Array.isArray(children)) return children.flatMap(flattenNodes)
+  if (typeof children === 'string' || typeof children === 'number') {
+    const text = String(children)
+    return text ? [{ type: 'text', text }] : []
+  }
+  return [children]
+}
+
+function flattenText(children: JSXChild): string {
+  if (children === null || children === undefined || typeof children === 'boolean') return ''
+  if (Array.isArray(children)) return children.map(flattenText).join('')
+  if (typeof children === 'string' || typeof children === 'number') return String(children)
+  throw new Error(`[CanvasWorker] <text> only accepts string children, got <${children.type}>`)
+}
+
+/** 内置节点按 IntrinsicElements 检查 props，组件按自身的 P 检查 */
+export function jsx<K extends RenderNodeType>(type: K, props: IntrinsicMap[K], key?: string | number): JSX.Element
+export function jsx<P>(type: Component<P>, props: P & { children?: JSXChild }, key?: string | number): JSX.Element
+export function jsx(type: typeof Fragment, props: { children?: JSXChild }, key?: string | number): JSX.Element
+export function jsx(
+  type: RenderNodeType | Component<Record<string, unknown>> | typeof Fragment,
+  props: Record<string, unknown> & { children?: JSXChild },
+  _key?: string | number,
+): JSX.Element {
+  if (type === Fragment) return flattenNodes(props.children)
+  if (typeof type === 'function') return type(props)
+
+  const { children, key: _ignored, ...rest } = props
+  if (type === 'text') {
+    return { ...rest, type, text: typeof rest.text === 'string' ? rest.text : flattenText(children) } as RenderNode
+  }
+
+  const nodes = flattenNodes(children)
+  if (type === 'box' || type === 'group') {
+    return { ...rest, type, children: nodes } as RenderNode
+  }
+  return (nodes.length ? { ...rest, type, children: nodes } : { ...rest, type }) as RenderNode
+}
+
+export const jsxs = jsx
+export const jsxDEV = jsx
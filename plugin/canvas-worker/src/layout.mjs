@@ -0,0 +1,719 @@
+// @ts-check
+
+/** @typedef {import('./types').RenderNode} RenderNode */
+/** @typedef {import('./types').BoxNode} BoxNode */
+/** @typedef {import('./types').BoxPadding} BoxPadding */
+/** @typedef {Extract<RenderNode, { type: 'text' }>} TextNode */
+/** @typedef {Extract<RenderNode, { type: 'richtext' }>} RichTextNode */
+/** @typedef {import('./types').RichTextSpan} RichTextSpan */
+
+/**
+ * @typedef {Object} TextMeasurer
+ * @property {(text: string, fontSize: number, fontWeight?: string | number, fontFamily?: string, italic?: boolean) => number} measure
+ */
+
+/**
+ * @typedef {Object} Size
+ * @property {number|undefined} [width]
+ * @property {number|undefined} [height]
+ */
+
+/**
+ * @typedef {Object} LayoutResult
+ * @property {RenderNode} node 已解析的节点（x/y 由父容器设置）
+ * @property {number} width
+ * @property {number} height
+ */
+
+export const DEFAULT_FONT_SIZE = 18
+export const DEFAULT_LINE_HEIGHT = 1.5
+
+// CJK、假名、谚文与全角符号逐字断行，其余按单词断行
+const WRAP_TOKEN = /[⺀-鿿가-힯豈-﫿︰-﹏＀-￯]|[^\s⺀-鿿가-힯豈-﫿︰-﹏＀-￯]+\s*|\s+/gu
+
+/**
+ * @param {(width: number, height: number) => any} createCanvas
+ * @param {string} fontFamily
+ * @returns {TextMeasurer}
+ */
+export function createTextMeasurer(createCanvas, fontFamily) {
+  const ctx = createCanvas(1, 1).getContext('2d')
+  let currentFont = ''
+  return {
+    measure(text, fontSize, fontWeight, family, italic) {
+      const font = `${italic ? 'italic ' : ''}${fontWeight ?? 'normal'} ${fontSize}px ${family ?? fontFamily}`
+      if (font !== currentFont) {
+        ctx.font = font
+        currentFont = font
+      }
+      return ctx.measureText(text).width
+    },
+  }
+}
+
+/**
+ * 贪心断行；limit 为空时只按显式换行符分行
+ * @param {string} text
+ * @param {number|undefined} limit
+ * @param {(text: string) => number} measure
+ * @returns {string[]}
+ */
+export function wrapText(text, limit, measure) {
+  /** @type {string[]} */
+  const lines = []
+  for (const paragraph of text.split('\n')) {
+    if (limit === undefined || measure(paragraph) <= limit) {
+      lines.push(paragraph)
+      continue
+    }
+
+    /** @type {string[]} */
+    const tokens = []
+    for (const token of paragraph.match(WRAP_TOKEN) ?? []) {
+      // 单个超长单词按字符拆开
+      if (measure(token.trimEnd()) > limit) tokens.push(...Array.from(token))
+      else tokens.push(token)
+    }
+
+    let line = ''
+    for (const token of tokens) {
+      const candidate = line + token
+      if (!line || measure(candidate.trimEnd()) <= limit) {
+        line = candidate
+        continue
+      }
+      lines.push(line.trimEnd())
+      line = token.trimStart()
+    }
+    lines.push(line.trimEnd())
+  }
+  return lines
+}
+
+/**
+ * @param {BoxPadding|undefined} padding
+ */
+function normalizePadding(padding) {
+  if (padding === undefined) return { top: 0, right: 0, bottom: 0, left: 0 }
+  if (typeof padding === 'number') return { top: padding, right: padding, bottom: padding, left: padding }
+  if (padding.length === 2) return { top: padding[0], right: padding[1], bottom: padding[0], left: padding[1] }
+  return { top: padding[0], right: padding[1], bottom: padding[2], left: padding[3] }
+}
+
+/**
+ * @param {...(number|undefined)} values
+ */
+function minDefined(...values) {
+  const defined = /** @type {number[]} */ (values.filter((value) => value !== undefined))
+  return defined.length ? Math.min(...defined) : undefined
+}
+
+/**
+ * @param {TextNode} node
+ * @param {TextMeasurer} measurer
+ * @param {number|undefined} available
+ * @param {number|undefined} forcedWidth
+ * @returns {LayoutResult}
+ */
+function layoutText(node, measurer, available, forcedWidth) {
+  const fontSize = node.fontSize ?? DEFAULT_FONT_SIZE
+  const lineHeight = fontSize * (node.lineHeight ?? DEFAULT_LINE_HEIGHT)
+  const limit = forcedWidth ?? minDefined(node.width, node.maxWidth, available)
+  const measure = (/** @type {string} */ text) =>
+    measurer.measure(text, fontSize, node.fontWeight, node.fontFamily, node.italic)
+  const lines = node.textWrap === 'none' ? node.text.split('\n') : wrapText(node.text, limit, measure)
+  const contentWidth = Math.max(0, ...lines.map(measure))
+  const width = forcedWidth ?? node.width ?? (limit === undefined ? contentWidth : Math.min(limit, contentWidth))
+  const height = lines.length * lineHeight
+
+  return {
+    // 断行结果直接写回文本，关闭 Leafer 自身换行，保证测量与绘制一致
+    node: { ...node, text: lines.join('\n'), width, textWrap: 'none', maxWidth: undefined },
+    width,
+    height,
+  }
+}
+
+// emoji 簇（含肤色、ZWJ 组合与变体选择符）与国旗（两个区域指示符）
+const EMOJI_CLUSTER =
+  /(?:\p{Regional_Indicator}{2}|\p{Extended_Pictographic}(?:\uFE0F|[\u{1F3FB}-\u{1F3FF}])*(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|[\u{1F3FB}-\u{1F3FF}])*)*)/gu
+
+/**
+ * @typedef {Object} RichStyle
+ * @property {number} fontSize
+ * @property {string|number|undefined} fontWeight
+ * @property {string|undefined} fontFamily
+ * @property {boolean|undefined} italic
+ * @property {string} fill
+ * @property {import('./types').TextDecoration|undefined} decoration
+ */
+
+/**
+ * @typedef {Object} RichItem
+ * @property {'text'|'image'|'badge'} kind
+ * @property {number} span span 下标，同一 span 的相邻文本在输出时合并
+ * @property {string} text
+ * @property {boolean} emoji
+ * @property {boolean} space 纯空白，行首行尾时丢弃
+ * @property {boolean} breakAfter 显式换行
+ * @property {number} width
+ * @property {number} height 行盒高度
+ * @property {RichStyle} style
+ * @property {RichTextSpan} source
+ */
+
+/**
+ * @param {RichItem} item
+ * @param {RichTextNode} node
+ * @param {TextMeasurer} measurer
+ */
+function measureItem(item, node, measurer) {
+  const { style } = item
+  const family = item.emoji && node.emojiFontFamily ? `${node.emojiFontFamily}, ${style.fontFamily ?? ''}` : style.fontFamily
+  return measurer.measure(item.text, style.fontSize, style.fontWeight, family?.replace(/,\s*$/, ''), style.italic)
+}
+
+/**
+ * @param {RichTextNode} node
+ * @param {TextMeasurer} measurer
+ * @returns {RichItem[]}
+ */
+function tokenizeSpans(node, measurer) {
+  const lineHeight = node.lineHeight ?? DEFAULT_LINE_HEIGHT
+  /** @type {RichItem[]} */
+  const items = []
+
+  node.spans.forEach((span, index) => {
+    /** @type {RichStyle} */
+    const style = {
+      fontSize: span.fontSize ?? node.fontSize ?? DEFAULT_FONT_SIZE,
+      fontWeight: span.fontWeight ?? node.fontWeight,
+      fontFamily: span.fontFamily ?? node.fontFamily,
+      italic: span.italic,
+      fill: span.fill ?? node.fill ?? '#111',
+      decoration: span.decoration,
+    }
+    const base = { span: index, emoji: false, space: false, breakAfter: false, style, source: span }
+
+    if (span.image) {
+      const width = span.image.width ?? style.fontSize
+      const height = span.image.height ?? style.fontSize
+      items.push({ ...base, kind: 'image', text: '', width, height: Math.max(height, style.fontSize * lineHeight) })
+    }
+    if (!span.text) return
+
+    if (span.background) {
+      const [padY, padX] = typeof span.padding === 'number' ? [span.padding, span.padding] : span.padding ?? [2, 6]
+      const item = /** @type {RichItem} */ ({ ...base, kind: 'badge', text: span.text, width: 0, height: 0 })
+      item.width = measureItem(item, node, measurer) + padX * 2
+      item.height = Math.max(style.fontSize * lineHeight, style.fontSize + padY * 2)
+      items.push(item)
+      return
+    }
+
+    const paragraphs = span.text.split('\n')
+    paragraphs.forEach((paragraph, pIndex) => {
+      const pieces = []
+      let last = 0
+      for (const match of paragraph.matchAll(EMOJI_CLUSTER)) {
+        if (match.index > last) pieces.push({ text: paragraph.slice(last, match.index), emoji: false })
+        pieces.push({ text: match[0], emoji: true })
+        last = match.index + match[0].length
+      }
+      if (last < paragraph.length) pieces.push({ text: paragraph.slice(last), emoji: false })
+
+      for (const piece of pieces) {
+        const tokens = piece.emoji ? [piece.text] : piece.text.match(WRAP_TOKEN) ?? []
+        for (const token of tokens) {
+          const item = /** @type {RichItem} */ ({
+            ...base,
+            kind: 'text',
+            text: token,
+            emoji: piece.emoji,
+            space: !piece.emoji && !token.trim(),
+            width: 0,
+            height: style.fontSize * lineHeight,
+          })
+          item.width = measureItem(item, node, measurer)
+          items.push(item)
+        }
+      }
+      if (pIndex < paragraphs.length - 1) {
+        if (items.length) items[items.length - 1].breakAfter = true
+        else items.push({ ...base, kind: 'text', text: '', width: 0, height: style.fontSize * lineHeight, breakAfter: true })
+      }
+    })
+  })
+  return items
+}
+
+/**
+ * @param {RichItem[]} items
+ * @param {number|undefined} limit
+ * @param {RichTextNode} node
+ * @param {TextMeasurer} measurer
+ * @returns {RichItem[][]}
+ */
+function breakRichLines(items, limit, node, measurer) {
+  /** @type {RichItem[][]} */
+  const lines = []
+  /** @type {RichItem[]} */
+  let line = []
+  let used = 0
+  const flush = () => {
+    while (line.length > 1 && line[line.length - 1].space) line.pop()
+    lines.push(line)
+    line = []
+    used = 0
+  }
+
+  /** @param {RichItem} item */
+  const place = (item) => {
+    if (!line.length && item.space && !item.breakAfter) return
+    if (limit !== undefined && line.length && used + item.width > limit) {
+      flush()
+      if (item.space && !item.breakAfter) return
+    }
+    // 单个超宽文本按字符拆开
+    if (limit !== undefined && item.kind === 'text' && !item.emoji && item.width > limit && item.text.length > 1) {
+      const chars = Array.from(item.text)
+      chars.forEach((char, i) => {
+        const piece = { ...item, text: char, breakAfter: item.breakAfter && i === chars.length - 1 }
+        piece.width = measureItem(piece, node, measurer)
+        place(piece)
+      })
+      return
+    }
+    line.push(item)
+    used += item.width
+    if (item.breakAfter) flush()
+  }
+
+  for (const item of items) place(item)
+  if (line.length || !lines.length) flush()
+  return lines
+}
+
+/**
+ * @param {RichItem[]} line
+ */
+function lineWidth(line) {
+  return line.reduce((sum, item) => sum + item.width, 0)
+}
+
+/**
+ * 截断最后一行使其能放下省略号
+ * @param {RichItem[]} line
+ * @param {number|undefined} limit
+ * @param {RichTextNode} node
+ * @param {TextMeasurer} measurer
+ */
+function applyEllipsis(line, limit, node, measurer) {
+  const anchor = [...line].reverse().find((item) => item.kind === 'text') ?? line[line.length - 1]
+  const ellipsis = /** @type {RichItem} */ ({
+    ...(anchor ?? { span: -1, source: {}, height: 0 }),
+    kind: 'text',
+    text: node.ellipsis ?? '…',
+    emoji: false,
+    space: false,
+    breakAfter: false,
+    style: anchor?.style ?? {
+      fontSize: node.fontSize ?? DEFAULT_FONT_SIZE,
+      fontWeight: node.fontWeight,
+      fontFamily: node.fontFamily,
+      italic: undefined,
+      fill: node.fill ?? '#111',
+      decoration: undefined,
+    },
+    width: 0,
+  })
+  ellipsis.width = measureItem(ellipsis, node, measurer)
+
+  if (limit !== undefined) {
+    while (line.length && lineWidth(line) + ellipsis.width > limit) {
+      const last = line[line.length - 1]
+      const chars = Array.from(last.text)
+      if (last.kind === 'text' && !last.emoji && chars.length > 1) {
+        const trimmed = { ...last, text: chars.slice(0, -1).join('') }
+        trimmed.width = measureItem(trimmed, node, measurer)
+        line[line.length - 1] = trimmed
+      } else {
+        line.pop()
+      }
+    }
+  }
+  while (line.length && line[line.length - 1].space) line.pop()
+  line.push(ellipsis)
+}
+
+/**
+ * 富文本按 span 逐段测量断行，展开为绝对定位的 text/rect/image 组合
+ * @param {RichTextNode} node
+ * @param {TextMeasurer} measurer
+ * @param {number|undefined} available
+ * @param {number|undefined} forcedWidth
+ * @returns {LayoutResult}
+ */
+function layoutRichText(node, measurer, available, forcedWidth) {
+  const limit = forcedWidth ?? minDefined(node.width, node.maxWidth, available)
+  let lines = breakRichLines(tokenizeSpans(node, measurer), limit, node, measurer)
+  if (node.maxLines !== undefined && node.maxLines > 0 && lines.length > node.maxLines) {
+    lines = lines.slice(0, node.maxLines)
+    applyEllipsis(lines[lines.length - 1], limit, node, measurer)
+  }
+
+  const contentWidth = Math.max(0, ...lines.map(lineWidth))
+  const width = forcedWidth ?? node.width ?? (limit === undefined ? contentWidth : Math.min(limit, contentWidth))
+  const lineHeightOf = (/** @type {RichItem[]} */ line) =>
+    Math.max(0, ...line.map((item) => item.height)) ||
+    (node.fontSize ?? DEFAULT_FONT_SIZE) * (node.lineHeight ?? DEFAULT_LINE_HEIGHT)
+
+  /** @type {RenderNode[]} */
+  const children = []
+  let top = 0
+  for (const line of lines) {
+    const height = lineHeightOf(line)
+    const free = width - lineWidth(line)
+    let x = node.textAlign === 'center' ? free / 2 : node.textAlign === 'right' ? free : 0
+
+    for (let i = 0; i < line.length; i++) {
+      const item = line[i]
+      const { style } = item
+      if (item.kind === 'image') {
+        const image = /** @type {NonNullable<RichTextSpan['image']>} */ (item.source.image)
+        const imageHeight = image.height ?? style.fontSize
+        children.push({
+          type: 'image',
+          url: typeof image.src === 'string' ? image.src : undefined,
+          x,
+          y: top + (height - imageHeight) / 2,
+          width: item.width,
+          height: imageHeight,
+          cornerRadius: image.cornerRadius,
+        })
+        x += item.width
+        continue
+      }
+
+      const family = item.emoji && node.emojiFontFamily ? `${node.emojiFontFamily}, ${style.fontFamily ?? ''}` : style.fontFamily
+      const textLineHeight = style.fontSize * (node.lineHeight ?? DEFAULT_LINE_HEIGHT)
+      const textProps = {
+        fontSize: style.fontSize,
+        fontWeight: style.fontWeight,
+        fontFamily: family?.replace(/,\s*$/, ''),
+        italic: style.italic,
+        fill: style.fill,
+        textDecoration: style.decoration,
+        lineHeight: node.lineHeight ?? DEFAULT_LINE_HEIGHT,
+        textWrap: /** @type {const} */ ('none'),
+      }
+
+      if (item.kind === 'badge') {
+        const badgeHeight = item.height
+        children.push({
+          type: 'rect',
+          x,
+          y: top + (height - badgeHeight) / 2,
+          width: item.width,
+          height: badgeHeight,
+          fill: item.source.background,
+          cornerRadius: item.source.cornerRadius ?? badgeHeight / 2,
+        })
+        children.push({
+          type: 'text',
+          ...textProps,
+          text: item.text,
+          x,
+          y: top + (height - textLineHeight) / 2,
+          width: item.width,
+          textAlign: 'center',
+        })
+        x += item.width
+        continue
+      }
+
+      // 合并同一 span、同类（emoji/非 emoji）的相邻片段，减少节点数量
+      let text = item.text
+      let runWidth = item.width
+      while (i + 1 < line.length) {
+        const next = line[i + 1]
+        if (next.kind !== 'text' || next.span !== item.span || next.emoji !== item.emoji) break
+        text += next.text
+        runWidth += next.width
+        i++
+      }
+      // 不同字号的文本底部对齐
+      children.push({ type: 'text', ...textProps, text, x, y: top + height - textLineHeight })
+      x += runWidth
+    }
+    top += height
+  }
+
+  return {
+    node: {
+      type: 'group',
+      id: node.id,
+      name: node.name,
+      x: node.x,
+      y: node.y,
+      opacity: node.opacity,
+      rotation: node.rotation,
+      scaleX: node.scaleX,
+      scaleY: node.scaleY,
+      origin: node.origin,
+      blendMode: node.blendMode,
+      mask: node.mask,
+      shadow: node.shadow,
+      children,
+    },
+    width,
+    height: top,
+  }
+}
+
+/**
+ * @param {RenderNode} node
+ * @returns {{ width: number; height: number }}
+ */
+function intrinsicSize(node) {
+  if (node.type === 'line') {
+    let width = 0
+    let height = 0
+    for (let i = 0; i + 1 < node.points.length; i += 2) {
+      width = Math.max(width, node.points[i])
+      height = Math.max(height, node.points[i + 1])
+    }
+    const stroke = node.strokeWidth ?? 1
+    return { width: width + stroke, height: height + stroke }
+  }
+  const sized = /** @type {{ width?: number; height?: number }} */ (node)
+  return { width: sized.width ?? 0, height: sized.height ?? 0 }
+}
+
+/**
+ * @param {RenderNode} node
+ * @param {TextMeasurer} measurer
+ * @param {Size} available 父容器内容区可用尺寸
+ * @param {Size} [forced] stretch/grow 计算出的强制尺寸
+ * @returns {LayoutResult}
+ */
+function layoutNode(node, measurer, available, forced = {}) {
+  switch (node.type) {
+    case 'box':
+      return layoutBox(node, measurer, available, forced)
+    case 'text':
+      return layoutText(node, measurer, available.width, forced.width)
+    case 'richtext':
+      return layoutRichText(node, measurer, available.width, forced.width)
+    case 'group': {
+      const children = resolveLayout(node.children ?? [], measurer)
+      let width = 0
+      let height = 0
+      for (const child of children) {
+        const size = layoutNode(child, measurer, {})
+        width = Math.max(width, (child.x ?? 0) + size.width)
+        height = Math.max(height, (child.y ?? 0) + size.height)
+      }
+      return { node: { ...node, children }, width, height }
+    }
+    default: {
+      const size = intrinsicSize(node)
+      const width = forced.width ?? size.width
+      const height = forced.height ?? size.height
+      const resized =
+        forced.width !== undefined || forced.height !== undefined
+          ? /** @type {RenderNode} */ ({ ...node, width, height })
+          : node
+      return { node: resized, width, height }
+    }
+  }
+}
+
+/**
+ * @param {BoxNode} box
+ * @param {TextMeasurer} measurer
+ * @param {Size} available
+ * @param {Size} forced
+ * @returns {LayoutResult}
+ */
+function layoutBox(box, measurer, available, forced) {
+  const row = (box.direction ?? 'row') === 'row'
+  const pad = normalizePadding(box.padding)
+  const gap = box.gap ?? 0
+  const lineGap = box.lineGap ?? gap
+  const padX = pad.left + pad.right
+  const padY = pad.top + pad.bottom
+
+  const fixedWidth = forced.width ?? box.width
+  const fixedHeight = forced.height ?? box.height
+  const limitWidth = fixedWidth ?? available.width
+  const limitHeight = fixedHeight ?? available.height
+  /** @type {Size} */
+  const inner = {
+    width: limitWidth === undefined ? undefined : Math.max(0, limitWidth - padX),
+    height: limitHeight === undefined ? undefined : Math.max(0, limitHeight - padY),
+  }
+  const mainLimit = row ? inner.width : inner.height
+
+  const items = (box.children ?? []).map((child) => {
+    const result = layoutNode(child, measurer, inner)
+    return {
+      child,
+      result,
+      main: row ? result.width : result.height,
+      cross: row ? result.height : result.width,
+    }
+  })
+
+  /** @type {Array<{ items: typeof items; main: number; cross: number }>} */
+  const lines = []
+  let current = /** @type {typeof items} */ ([])
+  let used = 0
+  for (const item of items) {
+    const next = current.length ? used + gap + item.main : item.main
+    if (box.wrap && mainLimit !== undefined && current.length && next > mainLimit) {
+      lines.push({ items: current, main: used, cross: 0 })
+      current = [item]
+      used = item.main
+    } else {
+      current.push(item)
+      used = next
+    }
+  }
+  if (current.length) lines.push({ items: current, main: used, cross: 0 })
+  for (const line of lines) {
+    line.cross = Math.max(0, ...line.items.map((item) => item.cross))
+  }
+
+  const contentMain = Math.max(0, ...lines.map((line) => line.main))
+  const contentCross = lines.reduce((sum, line) => sum + line.cross, 0) + lineGap * Math.max(0, lines.length - 1)
+  const innerWidth = fixedWidth !== undefined ? Math.max(0, fixedWidth - padX) : row ? contentMain : contentCross
+  const innerHeight = fixedHeight !== undefined ? Math.max(0, fixedHeight - padY) : row ? contentCross : contentMain
+  const mainSize = row ? innerWidth : innerHeight
+  const crossSize = row ? innerHeight : innerWidth
+  // 单行时行高撑满交叉轴，与 CSS align-content: stretch 的效果一致
+  if (lines.length === 1) lines[0].cross = crossSize
+
+  const align = box.align ?? 'start'
+  const justify = box.justify ?? 'start'
+  /** @type {RenderNode[]} */
+  const placed = []
+  let crossOffset = 0
+
+  for (const line of lines) {
+    let free = mainSize - line.main
+    const totalGrow = line.items.reduce((sum, item) => sum + Math.max(0, item.child.grow ?? 0), 0)
+    if (free > 0 && totalGrow > 0) {
+      for (const item of line.items) {
+        const grow = Math.max(0, item.child.grow ?? 0)
+        if (!grow) continue
+        item.main += (free * grow) / totalGrow
+        item.result = layoutNode(item.child, measurer, inner, row ? { width: item.main } : { height: item.main })
+        item.cross = row ? item.result.height : item.result.width
+      }
+      free = 0
+    }
+
+    const count = line.items.length
+    let cursor = 0
+    let spacing = gap
+    if (free > 0) {
+      if (justify === 'center') cursor = free / 2
+      else if (justify === 'end') cursor = free
+      else if (justify === 'space-between' && count > 1) spacing = gap + free / (count - 1)
+      else if (justify === 'space-around') {
+        spacing = gap + free / count
+        cursor = free / count / 2
+      } else if (justify === 'space-evenly') {
+        spacing = gap + free / (count + 1)
+        cursor = free / (count + 1)
+      }
+    }
+
+    for (const item of line.items) {
+      if (align === 'stretch' && item.cross !== line.cross) {
+        const stretched = row
+          ? { width: item.main, height: line.cross }
+          : { width: line.cross, height: item.main }
+        item.result = layoutNode(item.child, measurer, inner, stretched)
+        item.cross = line.cross
+      }
+      const crossFree = line.cross - item.cross
+      const crossPos =
+        crossOffset + (align === 'center' ? crossFree / 2 : align === 'end' ? crossFree : 0)
+      const x = pad.left + (row ? cursor : crossPos)
+      const y = pad.top + (row ? crossPos : cursor)
+      placed.push(/** @type {RenderNode} */ ({ ...item.result.node, x, y }))
+      cursor += item.main + spacing
+    }
+    crossOffset += line.cross + lineGap
+  }
+
+  const width = innerWidth + padX
+  const height = innerHeight + padY
+  /** @type {RenderNode[]} */
+  const children = []
+  if (box.fill !== undefined || box.stroke !== undefined || box.shadow || box.innerShadow) {
+    children.push({
+      type: 'rect',
+      x: 0,
+      y: 0,
+      width,
+      height,
+      fill: box.fill ?? 'transparent',
+      stroke: box.stroke,
+      strokeWidth: box.strokeWidth,
+      dashPattern: box.dashPattern,
+      cornerRadius: box.cornerRadius,
+      shadow: box.shadow,
+      innerShadow: box.innerShadow,
+    })
+  }
+  children.push(...placed)
+
+  return {
+    node: {
+      type: 'group',
+      id: box.id,
+      name: box.name,
+      opacity: box.opacity,
+      rotation: box.rotation,
+      scaleX: box.scaleX,
+      scaleY: box.scaleY,
+      origin: box.origin,
+      blendMode: box.blendMode,
+      mask: box.mask,
+      children,
+    },
+    width,
+    height,
+  }
+}
+
+/**
+ * 将 box 节点展开为绝对定位的 group；其余节点保持原样（group 内部递归处理）。
+ * @param {RenderNode[]} nodes
+ * @param {TextMeasurer} measurer
+ * @param {Size} [viewport] 顶层 box 自适应时的最大尺寸（通常为画布尺寸）
+ * @returns {RenderNode[]}
+ */
+export function resolveLayout(nodes, measurer, viewport = {}) {
+  return nodes.map((node) => {
+    if (node.type === 'box') {
+      const available = {
+        width: viewport.width === undefined ? undefined : Math.max(0, viewport.width - (node.x ?? 0)),
+        height: viewport.height === undefined ? undefined : Math.max(0, viewport.height - (node.y ?? 0)),
+      }
+      const { node: resolved } = layoutBox(node, measurer, available, {})
+      return /** @type {RenderNode} */ ({ ...resolved, x: node.x ?? 0, y: node.y ?? 0 })
+    }
+    if (node.type === 'richtext') {
+      const available = viewport.width === undefined ? undefined : Math.max(0, viewport.width - (node.x ?? 0))
+      return layoutRichText(node, measurer, available, undefined).node
+    }
+    if (node.type === 'group' && node.children?.length) {
+      return { ...node, children: resolveLayout(node.children, measurer) }
+    }
+    return node
+  })
+}
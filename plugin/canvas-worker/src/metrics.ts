@@ -0,0 +1,118 @@
+export interface RenderMetricsSummary {
+  /** 窗口内完成（含失败）的任务数 */
+  count: number
+  errors: number
+  /** 因 maxQueue 被直接拒绝的任务数 */
+  rejected: number
+  errorRate: number
+  p50: number
+  p95: number
+  max: number
+  lastAt: number | null
+}
+
+export interface RenderMetricsSnapshot {
+  windowMs: number
+  total: RenderMetricsSummary
+  byKind: Record<string, RenderMetricsSummary>
+  byCaller: Record<string, RenderMetricsSummary>
+}
+
+type Sample = { at: number; durationMs: number; ok: boolean }
+
+type Bucket = { samples: Sample[]; rejected: number[] }
+
+export interface RenderMetricsOptions {
+  /** 只统计最近 windowMs 内的样本 */
+  windowMs: number
+  /** 每个分组最多保留的样本数 */
+  maxSamples: number
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))
+  return sorted[index]
+}
+
+/** 按任务类型与调用方插件分组的滚动统计 */
+export class RenderMetrics {
+  private readonly total: Bucket = { samples: [], rejected: [] }
+  private readonly kinds = new Map<string, Bucket>()
+  private readonly callers = new Map<string, Bucket>()
+
+  constructor(private readonly options: RenderMetricsOptions) {}
+
+  record(kind: string, caller: string, durationMs: number, ok: boolean) {
+    const sample: Sample = { at: Date.now(), durationMs, ok }
+    for (const bucket of this.bucketsFor(kind, caller)) {
+      bucket.samples.push(sample)
+      if (bucket.samples.length > this.options.maxSamples) bucket.samples.shift()
+    }
+  }
+
+  reject(kind: string, caller: string) {
+    const at = Date.now()
+    for (const bucket of this.bucketsFor(kind, caller)) {
+      bucket.rejected.push(at)
+      if (bucket.rejected.length > this.options.maxSamples) bucket.rejected.shift()
+    }
+  }
+
+  snapshot(): RenderMetricsSnapshot {
+    const since = Date.now() - this.options.windowMs
+    const summarize = (map: Map<string, Bucket>) => {
+      const result: Record<string, RenderMetricsSummary> = {}
+      for (const [key, bucket] of map) {
+        const summary = this.summarize(bucket, since)
+        if (summary.count || summary.rejected) result[key] = summary
+      }
+      return result
+    }
+    return {
+      windowMs: this.options.windowMs,
+      total: this.summarize(this.total, since),
+      byKind: summarize(this.kinds),
+      byCaller: summarize(this.callers),
+    }
+  }
+
+  reset() {
+    this.total.samples = []
+    this.total.rejected = []
+    this.kinds.clear()
+    this.callers.clear()
+  }
+
+  private bucketsFor(kind: string, caller: string): Bucket[] {
+    const ensure = (map: Map<string, Bucket>, key: string) => {
+      let bucket = map.get(key)
+      if (!bucket) {
+        bucket = { samples: [], rejected: [] }
+        map.set(key, bucket)
+      }
+      return bucket
+    }
+    return [this.total, ensure(this.kinds, kind), ensure(this.callers, caller)]
+  }
+
+  private summarize(bucket: Bucket, since: number): RenderMetricsSummary {
+    // 样本按时间追加，丢弃窗口之前的部分
+    while (bucket.samples.length && bucket.samples[0].at < since) bucket.samples.shift()
+    while (bucket.rejected.length && bucket.rejected[0] < since) bucket.rejected.shift()
+
+    const durations = bucket.samples.map((sample) => sample.durationMs).sort((a, b) => a - b)
+    const errors = bucket.samples.filter((sample) => !sample.ok).length
+    const count = bucket.samples.length
+    return {
+      count,
+      errors,
+      rejected: bucket.rejected.length,
+      errorRate: count ? errors / count : 0,
+      p50: percentile(durations, 50),
+      p95: percentile(durations, 95),
+      max: durations[durations.length - 1] ?? 0,
+      lastAt: bucket.samples[count - 1]?.at ?? null,
+    }
+  }
+}
@@ -0,0 +1,341 @@
+import { Buffer } from 'node:buffer'
+import { createHash } from 'node:crypto'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import type { FontBootstrap, RenderCacheMode, WorkerJob, WorkerRenderResult } from './types'
+
+export interface RenderCacheOptions {
+  maxEntries: number
+  maxBytes: number
+  ttlMs: number
+  /** 绝对路径；为空时只使用内存层 */
+  diskDir?: string
+  /** 磁盘层字节上限，超出时按写入时间淘汰最旧的文件；0 表示不限制 */
+  maxDiskBytes?: number
+}
+
+export interface RenderCacheStats {
+  hits: number
+  diskHits: number
+  misses: number
+  evictions: number
+  entries: number
+  bytes: number
+}
+
+type CacheEntry = {
+  result: WorkerRenderResult
+  size: number
+  expiresAt: number
+}
+
+/** 进行中的共享渲染：不绑定任何调用方的 signal，最后一个等待者放弃时才中止 */
+type Inflight = {
+  task: Promise<WorkerRenderResult>
+  controller: AbortController
+  waiters: number
+}
+
+type DiskEntry = { size: number; createdAt: number }
+
+type DiskMeta = Pick<WorkerRenderResult, 'durationMs' | 'meta'> & { createdAt: number }
+
+export function fontBootstrapKey(fonts: FontBootstrap | undefined): string {
+  if (!fonts?.sources?.length) return 'none'
+  const sources = fonts.sources
+    .map((source) => `${source.type}:${path.resolve(source.path)}:${source.alias ?? ''}`)
+    .sort()
+    .join('|')
+  return `${fonts.revision ?? 0}#${sources}`
+}
+
+/** 键排序、丢弃 undefined/函数，二进制按 base64 编码，保证同内容得到同一串 */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || value === undefined ? 'null' : JSON.stringify(value)
+  }
+  if (ArrayBuffer.isView(value)) {
+    return JSON.stringify({ $bytes: Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('base64') })
+  }
+  if (value instanceof ArrayBuffer) {
+    return JSON.stringify({ $bytes: Buffer.from(value).toString('base64') })
+  }
+  if (value instanceof Date) return JSON.stringify(value.toISOString())
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+
+  const record = value as Record<string, unknown>
+  const parts: string[] = []
+  for (const key of Object.keys(record).sort()) {
+    const item = record[key]
+    if (item === undefined || typeof item === 'function') continue
+    parts.push(`${JSON.stringify(key)}:${stableStringify(item)}`)
+  }
+  return `{${parts.join(',')}}`
+}
+
+export function renderCacheKey(job: WorkerJob): string {
+  return createHash('sha256')
+    .update(job.kind)
+    .update('\0')
+    .update(fontBootstrapKey(job.fonts))
+    .update('\0')
+    .update(stableStringify(job.payload))
+    .update('\0')
+    // 图片策略影响能否加载本地文件/内网图片，不同策略的结果不能互相复用
+    .update(stableStringify(job.images))
+    .digest('hex')
+}
+
+function cloneResult(result: WorkerRenderResult): WorkerRenderResult {
+  return { ...result, buffer: result.buffer.slice(0), meta: { ...result.meta } }
+}
+
+export class RenderCache {
+  private readonly entries = new Map<string, CacheEntry>()
+  private readonly inflight = new Map<string, Inflight>()
+  private bytes = 0
+  private counters = { hits: 0, diskHits: 0, misses: 0, evictions: 0 }
+  /** 磁盘层索引，首次访问磁盘时扫描目录建立 */
+  private diskIndex: Promise<Map<string, DiskEntry>> | null = null
+  private diskBytes = 0
+
+  constructor(
+    private readonly options: RenderCacheOptions,
+    private readonly onError: (err: unknown, message: string) => void = () => {},
+  ) {}
+
+  stats(): RenderCacheStats {
+    return { ...this.counters, entries: this.entries.size, bytes: this.bytes }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+    this.bytes = 0
+    this.diskIndex = Promise.resolve(new Map())
+    this.diskBytes = 0
+    if (this.options.diskDir) {
+      await fs.rm(this.options.diskDir, { recursive: true, force: true }).catch((err) => {
+        this.onError(err, '[CanvasWorker] failed to clear disk cache')
+      })
+    }
+  }
+
+  /** 主动清理过期条目；读取时也会检查 TTL，这里负责回收不再被访问的内存与磁盘空间 */
+  async sweep(): Promise<void> {
+    const now = Date.now()
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.delete(key)
+    }
+    if (!this.options.diskDir) return
+    const index = await this.loadDiskIndex()
+    const expired = [...index].filter(([, entry]) => entry.createdAt + this.options.ttlMs <= now)
+    await Promise.all(expired.map(([key]) => this.removeDisk(key)))
+  }
+
+  /**
+   * 命中则直接返回，否则执行 render 并写入缓存；同 key 的并发请求共享一次渲染。
+   * 每个调用方按自己的 signal 等待，render 收到的 signal 只在所有等待者都放弃后才中止。
+   * `refresh` 跳过读取但会写回，`bypass` 完全不碰缓存。
+   */
+  async resolve(
+    key: string,
+    mode: RenderCacheMode | undefined,
+    render: (signal?: AbortSignal) => Promise<WorkerRenderResult>,
+    signal?: AbortSignal,
+  ): Promise<WorkerRenderResult> {
+    if (mode === 'bypass') return render(signal)
+
+    if (mode !== 'refresh') {
+      const cached = this.getMemory(key) ?? (await this.getDisk(key))
+      if (cached) return cloneResult(cached)
+      const pending = this.inflight.get(key)
+      if (pending) return this.wait(key, pending, signal)
+    }
+
+    this.counters.misses++
+    signal?.throwIfAborted()
+    const controller = new AbortController()
+    const entry: Inflight = {
+      task: render(controller.signal).then((result) => {
+        this.set(key, result)
+        return result
+      }),
+      controller,
+      waiters: 0,
+    }
+    this.inflight.set(key, entry)
+    entry.task
+      .finally(() => {
+        if (this.inflight.get(key) === entry) this.inflight.delete(key)
+      })
+      .catch(() => {})
+    return this.wait(key, entry, signal)
+  }
+
+  private async wait(key: string, entry: Inflight, signal?: AbortSignal): Promise<WorkerRenderResult> {
+    signal?.throwIfAborted()
+    entry.waiters++
+    let onAbort: (() => void) | undefined
+    try {
+      if (!signal) return cloneResult(await entry.task)
+      const aborted = new Promise<never>((_, reject) => {
+        onAbort = () => reject(signal.reason)
+        signal.addEventListener('abort', onAbort, { once: true })
+      })
+      return cloneResult(await Promise.race([entry.task, aborted]))
+    } finally {
+      if (onAbort) signal?.removeEventListener('abort', onAbort)
+      entry.waiters--
+      if (entry.waiters === 0) {
+        // 之后的请求重新渲染，不再加入即将中止的任务；任务已完成时 abort 不产生影响
+        if (this.inflight.get(key) === entry) this.inflight.delete(key)
+        entry.controller.abort(signal?.reason)
+      }
+    }
+  }
+
+  private getMemory(key: string): WorkerRenderResult | null {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key)
+      return null
+    }
+    // Map 保持插入顺序：重新插入即标记为最近使用
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    this.counters.hits++
+    return entry.result
+  }
+
+  private async getDisk(key: string): Promise<WorkerRenderResult | null> {
+    const files = this.diskFiles(key)
+    if (!files) return null
+    try {
+      const meta = JSON.parse(await fs.readFile(files.meta, 'utf8')) as DiskMeta
+      if (meta.createdAt + this.options.ttlMs <= Date.now()) {
+        await this.removeDisk(key)
+        return null
+      }
+      const data = await fs.readFile(files.data)
+      const result: WorkerRenderResult = {
+        buffer: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength),
+        durationMs: meta.durationMs,
+        meta: meta.meta,
+      }
+      this.counters.diskHits++
+      this.setMemory(key, result, meta.createdAt + this.options.ttlMs)
+      return result
+    } catch {
+      return null
+    }
+  }
+
+  private set(key: string, result: WorkerRenderResult) {
+    const now = Date.now()
+    this.setMemory(key, result, now + this.options.ttlMs)
+    void this.writeDisk(key, result, now)
+  }
+
+  private setMemory(key: string, result: WorkerRenderResult, expiresAt: number) {
+    const size = result.buffer.byteLength
+    if (size > this.options.maxBytes) return
+    this.delete(key)
+    this.entries.set(key, { result, size, expiresAt })
+    this.bytes += size
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries && this.bytes <= this.options.maxBytes) break
+      this.delete(oldest)
+      this.counters.evictions++
+    }
+  }
+
+  private delete(key: string) {
+    const entry = this.entries.get(key)
+    if (!entry) return
+    this.entries.delete(key)
+    this.bytes -= entry.size
+  }
+
+  private async writeDisk(key: string, result: WorkerRenderResult, createdAt: number) {
+    const files = this.diskFiles(key)
+    if (!files) return
+    try {
+      await fs.mkdir(path.dirname(files.data), { recursive: true })
+      const meta: DiskMeta = { durationMs: result.durationMs, meta: result.meta, createdAt }
+      await fs.writeFile(files.data, Buffer.from(result.buffer))
+      await fs.writeFile(files.meta, JSON.stringify(meta))
+      const index = await this.loadDiskIndex()
+      this.diskBytes -= index.get(key)?.size ?? 0
+      index.set(key, { size: result.buffer.byteLength, createdAt })
+      this.diskBytes += result.buffer.byteLength
+      await this.trimDisk(index)
+    } catch (err) {
+      this.onError(err, '[CanvasWorker] failed to write disk cache')
+    }
+  }
+
+  /** 超出 maxDiskBytes 时从最早写入的文件开始删除 */
+  private async trimDisk(index: Map<string, DiskEntry>) {
+    const limit = this.options.maxDiskBytes ?? 0
+    if (limit <= 0 || this.diskBytes <= limit) return
+    const oldest = [...index].sort(([, a], [, b]) => a.createdAt - b.createdAt)
+    const removing: Promise<void>[] = []
+    let bytes = this.diskBytes
+    for (const [key, entry] of oldest) {
+      if (bytes <= limit) break
+      bytes -= entry.size
+      removing.push(this.removeDisk(key))
+    }
+    await Promise.all(removing)
+  }
+
+  private async removeDisk(key: string) {
+    const files = this.diskFiles(key)
+    if (!files) return
+    const index = await this.loadDiskIndex()
+    const entry = index.get(key)
+    if (entry) {
+      index.delete(key)
+      this.diskBytes -= entry.size
+    }
+    await Promise.all([fs.rm(files.meta, { force: true }), fs.rm(files.data, { force: true })]).catch((err) => {
+      this.onError(err, '[CanvasWorker] failed to remove disk cache entry')
+    })
+  }
+
+  /** 以 .bin 文件大小与 .json 中的写入时间建立索引，覆盖重启前写入的文件 */
+  private loadDiskIndex(): Promise<Map<string, DiskEntry>> {
+    this.diskIndex ??= (async () => {
+      const index = new Map<string, DiskEntry>()
+      const dir = this.options.diskDir
+      if (!dir) return index
+      const buckets = await fs.readdir(dir).catch(() => [] as string[])
+      for (const bucket of buckets) {
+        const files = await fs.readdir(path.join(dir, bucket)).catch(() => [] as string[])
+        for (const file of files) {
+          if (!file.endsWith('.bin')) continue
+          const key = file.slice(0, -'.bin'.length)
+          const stat = await fs.stat(path.join(dir, bucket, file)).catch(() => null)
+          if (!stat?.isFile()) continue
+          const meta = await fs
+            .readFile(path.join(dir, bucket, `${key}.json`), 'utf8')
+            .then((text) => JSON.parse(text) as DiskMeta)
+            .catch(() => null)
+          index.set(key, { size: stat.size, createdAt: meta?.createdAt ?? stat.mtimeMs })
+          this.diskBytes += stat.size
+        }
+      }
+      return index
+    })()
+    return this.diskIndex
+  }
+
+  private diskFiles(key: string) {
+    if (!this.options.diskDir) return null
+    const dir = path.join(this.options.diskDir, key.slice(0, 2))
+    return { data: path.join(dir, `${key}.bin`), meta: path.join(dir, `${key}.json`) }
+  }
+}
@@ -0,0 +1,50 @@
+import type { BatchItemResult, RenderNode, SpriteCell, SpriteOptions } from './types'
+
+/** 拼图单边上限，超出 skia 可分配的画布尺寸 */
+export const MAX_SPRITE_SIZE = 16_384
+
+export interface SpriteLayout {
+  width: number
+  height: number
+  cells: SpriteCell[]
+  /** 成功项按比例缩放后居中放入单元格的字节图片节点 */
+  nodes: RenderNode[]
+}
+
+/** 计算拼图网格；尺寸超出 MAX_SPRITE_SIZE 时在分发渲染前抛出 */
+export function layoutSprite(results: BatchItemResult[], options: SpriteOptions): SpriteLayout {
+  const rendered = results.flatMap((result) => (result.ok ? [result.image] : []))
+  const columns = Math.max(1, Math.floor(options.columns ?? Math.ceil(Math.sqrt(results.length))))
+  const rows = Math.max(1, Math.ceil(results.length / columns))
+  const cellWidth = options.cellWidth ?? Math.max(1, ...rendered.map((image) => image.meta.width))
+  const cellHeight = options.cellHeight ?? Math.max(1, ...rendered.map((image) => image.meta.height))
+  const gap = options.gap ?? 0
+  const padding = options.padding ?? 0
+  const width = Math.ceil(padding * 2 + columns * cellWidth + (columns - 1) * gap)
+  const height = Math.ceil(padding * 2 + rows * cellHeight + (rows - 1) * gap)
+  if (width > MAX_SPRITE_SIZE || height > MAX_SPRITE_SIZE) {
+    throw new Error(`[CanvasWorker] sprite ${width}x${height} exceeds ${MAX_SPRITE_SIZE}px`)
+  }
+
+  const cells: SpriteCell[] = []
+  const nodes: RenderNode[] = []
+  for (const result of results) {
+    const x = padding + (result.index % columns) * (cellWidth + gap)
+    const y = padding + Math.floor(result.index / columns) * (cellHeight + gap)
+    cells.push({ index: result.index, x, y, width: cellWidth, height: cellHeight })
+    if (!result.ok) continue
+    const { meta, buffer } = result.image
+    const scale = Math.min(1, cellWidth / meta.width, cellHeight / meta.height)
+    const w = meta.width * scale
+    const h = meta.height * scale
+    nodes.push({
+      type: 'image',
+      src: new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength),
+      x: x + (cellWidth - w) / 2,
+      y: y + (cellHeight - h) / 2,
+      width: w,
+      height: h,
+    })
+  }
+  return { width, height, cells, nodes }
+}
@@ -0,0 +1,238 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import { createCanvas, loadImage } from 'pluxel-plugin-napi-rs/canvas'
+
+import type {
+  EchartsRenderPayload,
+  FontSourcePayload,
+  LeafRenderPayload,
+  RenderScene,
+  WorkerRenderResult,
+} from './types'
+import run from './worker.mjs'
+
+export interface VisualHarnessOptions {
+  /** golden PNG 所在目录 */
+  goldenDir: string
+  /** 不匹配时写入 actual/diff 的目录，默认 `${goldenDir}/__diff__` */
+  outputDir?: string
+  /** 固定的字体文件或目录；场景只应使用这里注册的 fontFamily，避免受系统字体影响 */
+  fonts: FontSourcePayload[]
+  fontFamily: string
+  /** 单像素 YIQ 色差阈值（0-1），默认 0.1 */
+  threshold?: number
+  /** 允许的差异像素占比，默认 0 */
+  maxDiffRatio?: number
+  /** 覆盖 golden；默认读取环境变量 `UPDATE_GOLDENS=1` */
+  update?: boolean
+}
+
+export interface VisualSceneOptions {
+  width: number
+  height: number
+  background?: string | null
+}
+
+export interface VisualChartOptions {
+  width: number
+  height: number
+  theme?: string
+}
+
+export interface VisualMatchResult {
+  name: string
+  pass: boolean
+  /** golden 被写入（update 模式或首次运行） */
+  updated: boolean
+  diffPixels: number
+  diffRatio: number
+  goldenPath: string
+  actualPath?: string
+  diffPath?: string
+  message: string
+}
+
+type Pixels = { width: number; height: number; data: Uint8ClampedArray }
+
+// YIQ 空间下两像素的最大色差平方
+const MAX_YIQ_DELTA = 35215
+
+/** 只认显式的环境变量，避免透传给测试运行器的 `-u` 等参数意外覆盖 golden */
+export function isUpdateMode(env = process.env): boolean {
+  return env.UPDATE_GOLDENS === '1'
+}
+
+async function decodePng(buffer: Buffer): Promise<Pixels> {
+  const image = await loadImage(buffer)
+  const canvas = createCanvas(image.width, image.height)
+  const context = canvas.getContext('2d')
+  context.drawImage(image, 0, 0)
+  const { data } = context.getImageData(0, 0, image.width, image.height)
+  return { width: image.width, height: image.height, data }
+}
+
+/** 按 alpha 混合到白底后计算 YIQ 色差，对人眼不敏感的色度差异给更低权重 */
+function colorDelta(a: Uint8ClampedArray, b: Uint8ClampedArray, offset: number): number {
+  const blend = (data: Uint8ClampedArray, channel: number) => {
+    const alpha = data[offset + 3] / 255
+    return 255 + (data[offset + channel] - 255) * alpha
+  }
+  const r1 = blend(a, 0)
+  const g1 = blend(a, 1)
+  const b1 = blend(a, 2)
+  const r2 = blend(b, 0)
+  const g2 = blend(b, 1)
+  const b2 = blend(b, 2)
+  const y = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223
+  const i = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189
+  const q = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q
+}
+
+/**
+ * 逐像素比较，返回差异像素数与 diff 图（原图淡化为灰度，差异像素标红）
+ */
+export function diffPixels(
+  expected: Pixels,
+  actual: Pixels,
+  threshold = 0.1,
+): { count: number; diff: Uint8ClampedArray } {
+  const limit = MAX_YIQ_DELTA * threshold * threshold
+  const diff = new Uint8ClampedArray(expected.data.length)
+  let count = 0
+  for (let offset = 0; offset < expected.data.length; offset += 4) {
+    if (colorDelta(expected.data, actual.data, offset) > limit) {
+      count++
+      diff.set([255, 0, 0, 255], offset)
+      continue
+    }
+    const gray = blendGray(expected.data, offset)
+    diff.set([gray, gray, gray, 255], offset)
+  }
+  return { count, diff }
+}
+
+function blendGray(data: Uint8ClampedArray, offset: number): number {
+  const luma = data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114
+  const alpha = data[offset + 3] / 255
+  // 淡化到 10% 便于突出差异
+  return 255 + (luma - 255) * alpha * 0.1
+}
+
+function encodeRgba(pixels: Pixels): Buffer {
+  const canvas = createCanvas(pixels.width, pixels.height)
+  const context = canvas.getContext('2d')
+  const imageData = context.createImageData(pixels.width, pixels.height)
+  imageData.data.set(pixels.data)
+  context.putImageData(imageData, 0, 0)
+  return canvas.toBuffer('image/png')
+}
+
+/**
+ * 视觉回归工具：在当前线程直接调用 worker 渲染（不经过线程池与缓存），
+ * 与 golden PNG 做像素比较，不匹配时写出 actual 与 diff 图。
+ */
+export function createVisualHarness(options: VisualHarnessOptions) {
+  const outputDir = options.outputDir ?? path.join(options.goldenDir, '__diff__')
+  const update = options.update ?? isUpdateMode()
+  const fonts = { sources: options.fonts, revision: 1 }
+
+  const compare = async (name: string, raw: WorkerRenderResult): Promise<VisualMatchResult> => {
+    const goldenPath = path.join(options.goldenDir, `${name}.png`)
+    const buffer = Buffer.from(raw.buffer)
+    const golden = await fs.readFile(goldenPath).catch(() => null)
+    const empty = { name, diffPixels: 0, diffRatio: 0, goldenPath }
+
+    if (update || !golden) {
+      // CI 中缺失 golden 视为失败，避免悄悄生成新基准
+      if (!update && process.env.CI) {
+        return { ...empty, pass: false, updated: false, message: `missing golden ${goldenPath}` }
+      }
+      await fs.mkdir(options.goldenDir, { recursive: true })
+      await fs.writeFile(goldenPath, buffer)
+      return { ...empty, pass: true, updated: true, message: `wrote golden ${goldenPath}` }
+    }
+
+    const expected = await decodePng(golden)
+    const actual = await decodePng(buffer)
+    const actualPath = path.join(outputDir, `${name}.actual.png`)
+    const writeActual = async () => {
+      await fs.mkdir(outputDir, { recursive: true })
+      await fs.writeFile(actualPath, buffer)
+    }
+
+    if (expected.width !== actual.width || expected.height !== actual.height) {
+      await writeActual()
+      return {
+        name,
+        pass: false,
+        updated: false,
+        diffPixels: actual.width * actual.height,
+        diffRatio: 1,
+        goldenPath,
+        actualPath,
+        message: `${name}: size ${actual.width}x${actual.height} differs from golden ${expected.width}x${expected.height}`,
+      }
+    }
+
+    const { count, diff } = diffPixels(expected, actual, options.threshold)
+    const ratio = count / (expected.width * expected.height)
+    const diffPath = path.join(outputDir, `${name}.diff.png`)
+    if (ratio <= (options.maxDiffRatio ?? 0)) {
+      await Promise.all([fs.rm(actualPath, { force: true }), fs.rm(diffPath, { force: true })])
+      return { ...empty, pass: true, updated: false, diffPixels: count, diffRatio: ratio, message: `${name}: match` }
+    }
+
+    await writeActual()
+    await fs.writeFile(diffPath, encodeRgba({ width: expected.width, height: expected.height, data: diff }))
+    return {
+      name,
+      pass: false,
+      updated: false,
+      diffPixels: count,
+      diffRatio: ratio,
+      goldenPath,
+      actualPath,
+      diffPath,
+      message: `${name}: ${count} pixels (${(ratio * 100).toFixed(3)}%) differ, see ${diffPath}`,
+    }
+  }
+
+  return {
+    update,
+
+    async matchScene(name: string, scene: RenderScene, sceneOptions: VisualSceneOptions): Promise<VisualMatchResult> {
+      const payload: LeafRenderPayload = {
+        width: sceneOptions.width,
+        height: sceneOptions.height,
+        background: sceneOptions.background ?? '#ffffff',
+        fontFamily: options.fontFamily,
+        scene,
+        format: 'png',
+      }
+      const raw = (await run({ kind: 'leafui', payload, fonts })) as WorkerRenderResult
+      return compare(name, raw)
+    },
+
+    async matchChart(
+      name: string,
+      option: EchartsRenderPayload['options'],
+      chartOptions: VisualChartOptions,
+    ): Promise<VisualMatchResult> {
+      const payload: EchartsRenderPayload = {
+        width: chartOptions.width,
+        height: chartOptions.height,
+        theme: chartOptions.theme ?? 'light',
+        fontFamily: options.fontFamily,
+        // 动画会让 SSR 输出停在中间帧
+        options: { ...option, animation: false },
+        format: 'png',
+      }
+      const raw = (await run({ kind: 'echarts', payload, fonts })) as WorkerRenderResult
+      return compare(name, raw)
+    },
+  }
+}
+
+export type VisualHarness = ReturnType<typeof createVisualHarness>
@@ -2,60 +2,320 @@ import type { Leafer } from '@leafer-ui/node'
 import type { Buffer } from 'node:buffer'
 import type * as echarts from 'echarts'
 
-export type RenderNodeType = 'rect' | 'text' | 'image' | 'group'
+export type RenderNodeType =
+  | 'rect'
+  | 'text'
+  | 'image'
+  | 'group'
+  | 'box'
+  | 'path'
+  | 'ellipse'
+  | 'line'
+  | 'polygon'
+  | 'star'
+  | 'richtext'
 
 export type RenderNode =
   | ({ type: 'rect' } & NodeBase & RectProps)
   | ({ type: 'text' } & NodeBase & TextProps)
   | ({ type: 'image' } & NodeBase & ImageProps)
-  | ({ type: 'group' } & NodeBase & { children: RenderNode[] })
+  | ({ type: 'group' } & NodeBase & GroupProps & { children: RenderNode[] })
+  | ({ type: 'box' } & NodeBase & BoxProps & { children: RenderNode[] })
+  | ({ type: 'path' } & NodeBase & PathProps)
+  | ({ type: 'ellipse' } & NodeBase & EllipseProps)
+  | ({ type: 'line' } & NodeBase & LineProps)
+  | ({ type: 'polygon' } & NodeBase & PolygonProps)
+  | ({ type: 'star' } & NodeBase & StarProps)
+  | ({ type: 'richtext' } & NodeBase & RichTextProps)
 
-export interface NodeBase {
+export interface NodeBase extends TransformProps, EffectProps {
   id?: string
   name?: string
   children?: RenderNode[]
+  /** 位于 box 内时按比例分配主轴剩余空间（flex-grow） */
+  grow?: number
 }
 
-export interface RectProps {
+export type BoxNode = Extract<RenderNode, { type: 'box' }>
+
+export type AlignPoint =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right'
+
+export type PointLike = AlignPoint | { x: number; y: number }
+
+export interface GradientStop {
+  offset: number
+  color: string
+}
+
+/** 与 Leafer 渐变格式一致，from/to 为相对元素包围盒的位置 */
+export interface LinearGradientPaint {
+  type: 'linear'
+  from?: PointLike
+  to?: PointLike
+  stops: Array<string | GradientStop>
+}
+
+export interface RadialGradientPaint {
+  type: 'radial'
+  from?: PointLike
+  to?: PointLike
+  /** 垂直方向拉伸比例，用于椭圆渐变 */
+  stretch?: number
+  stops: Array<string | GradientStop>
+}
+
+export type Paint = string | LinearGradientPaint | RadialGradientPaint
+
+export interface ShadowEffect {
+  x: number
+  y: number
+  blur: number
+  color: string
+  spread?: number
+}
+
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity'
+
+/** true/'path' 按形状裁剪，'pixel' 按像素透明度，'clipping' 只裁剪不绘制遮罩自身 */
+export type MaskMode = boolean | 'path' | 'pixel' | 'clipping'
+
+export interface TransformProps {
+  /** 角度制 */
+  rotation?: number
+  scaleX?: number
+  scaleY?: number
+  /** 旋转/缩放的原点，默认左上角 */
+  origin?: PointLike
+}
+
+export interface EffectProps {
+  shadow?: ShadowEffect | ShadowEffect[]
+  innerShadow?: ShadowEffect | ShadowEffect[]
+  blendMode?: BlendMode
+  /** 作为遮罩裁剪同一 group 内位于其后的兄弟节点 */
+  mask?: MaskMode
+}
+
+export interface ShapeStyle {
+  fill?: Paint
+  stroke?: Paint
+  strokeWidth?: number
+  opacity?: number
+  dashPattern?: number[]
+}
+
+export interface RectProps extends ShapeStyle {
   width: number
   height: number
   x?: number
   y?: number
-  fill?: string
   cornerRadius?: number | number[]
-  opacity?: number
-  stroke?: string
-  strokeWidth?: number
 }
 
+export type TextDecoration = 'none' | 'underline' | 'line-through'
+
 export interface TextProps {
   text: string
   x?: number
   y?: number
-  fill?: string
+  fill?: Paint
   fontSize?: number
   fontWeight?: string | number
+  /** FontManager 字体组（sans/serif/mono 或自定义组），主线程解析为 fontFamily */
+  fontKey?: string
+  /** 覆盖场景的 fontFamily */
+  fontFamily?: string
+  italic?: boolean
+  textDecoration?: TextDecoration
   textAlign?: 'left' | 'center' | 'right'
   maxWidth?: number
+  /** 固定宽度，超出时按 textWrap 换行 */
+  width?: number
+  /** 行高倍数，默认 1.5 */
+  lineHeight?: number
+  textWrap?: 'normal' | 'none' | 'break'
+  opacity?: number
+}
+
+export interface RichTextSpan {
+  text?: string
+  fontKey?: string
+  fontFamily?: string
+  fontSize?: number
+  fontWeight?: string | number
+  italic?: boolean
+  fill?: string
+  decoration?: TextDecoration
+  /** 设置后整个 span 作为不可断开的徽章绘制 */
+  background?: string
+  /** 徽章内边距，默认 [2, 6] */
+  padding?: number | [number, number]
+  cornerRadius?: number
+  /** 行内图片（头像、图标），尺寸默认与字号相同；与 text 同时存在时图片在前 */
+  image?: { src: string | Uint8Array; width?: number; height?: number; cornerRadius?: number; optional?: boolean }
+}
+
+export interface RichTextProps {
+  spans: RichTextSpan[]
+  x?: number
+  y?: number
+  /** 固定宽度；未设置时按 maxWidth / 父容器可用宽度换行 */
+  width?: number
+  maxWidth?: number
+  /** 以下为各 span 的默认值 */
+  fontKey?: string
+  fontFamily?: string
+  fontSize?: number
+  fontWeight?: string | number
+  fill?: string
+  /** 行高倍数，默认 1.5 */
+  lineHeight?: number
+  textAlign?: 'left' | 'center' | 'right'
+  /** 超出时截断最后一行并追加 ellipsis */
+  maxLines?: number
+  /** 默认 `…` */
+  ellipsis?: string
+  /** emoji 优先使用的字体，主线程按 FontManager 的 emoji 字体组填充 */
+  emojiFontFamily?: string
+  opacity?: number
 }
 
 export interface ImageProps {
   url?: string
-  src?: string
+  /** 支持 http(s)/data URL/本地路径，或直接传入图片字节（随任务结构化克隆，无需转 base64） */
+  src?: string | Uint8Array
+  /** 加载失败时跳过该节点而不是让整个渲染失败 */
+  optional?: boolean
   x?: number
   y?: number
   width?: number
   height?: number
   opacity?: number
+  cornerRadius?: number
   mode?: any
 }
 
+export interface GroupProps {
+  x?: number
+  y?: number
+  opacity?: number
+}
+
+export type BoxPadding = number | [number, number] | [number, number, number, number]
+
+/**
+ * 自动布局容器：children 按 direction 依次排列，忽略其自身 x/y。
+ * 未给出 width/height 时按内容自适应（受父容器可用空间约束）。
+ */
+export interface BoxProps extends ShapeStyle {
+  x?: number
+  y?: number
+  width?: number
+  height?: number
+  direction?: 'row' | 'column'
+  gap?: number
+  /** 换行后行与行之间的间距，默认同 gap */
+  lineGap?: number
+  /** 与 CSS 相同：单值、[垂直, 水平] 或 [上, 右, 下, 左] */
+  padding?: BoxPadding
+  align?: 'start' | 'center' | 'end' | 'stretch'
+  justify?: 'start' | 'center' | 'end' | 'space-between' | 'space-around' | 'space-evenly'
+  wrap?: boolean
+  cornerRadius?: number | number[]
+}
+
+export interface PathProps extends ShapeStyle {
+  /** SVG path data，如 `M0 0 L10 10 Z` */
+  path: string
+  x?: number
+  y?: number
+  windingRule?: 'nonzero' | 'evenodd'
+}
+
+export interface EllipseProps extends ShapeStyle {
+  width: number
+  height: number
+  x?: number
+  y?: number
+  /** 扇形/圆环：起止角度（角度制）与内半径比例 0-1 */
+  startAngle?: number
+  endAngle?: number
+  innerRadius?: number
+}
+
+export interface LineProps extends Omit<ShapeStyle, 'fill'> {
+  /** 折线坐标 [x1, y1, x2, y2, ...]，相对节点自身 x/y */
+  points: number[]
+  x?: number
+  y?: number
+  strokeCap?: 'none' | 'round' | 'square'
+  strokeJoin?: 'miter' | 'round' | 'bevel'
+  /** 平滑曲率 0-1 */
+  curve?: number
+}
+
+export interface PolygonProps extends ShapeStyle {
+  x?: number
+  y?: number
+  width?: number
+  height?: number
+  /** 正多边形边数；与 points 二选一 */
+  sides?: number
+  points?: number[]
+  cornerRadius?: number
+}
+
+export interface StarProps extends ShapeStyle {
+  width: number
+  height: number
+  x?: number
+  y?: number
+  corners?: number
+  /** 内半径比例 0-1 */
+  innerRadius?: number
+  cornerRadius?: number
+}
+
 export type RenderScene =
   | { kind: 'nodes'; nodes: RenderNode[] }
   | { kind: 'leafer-json'; json: unknown }
 
 export type LeaferTree = { children?: any[]; [key: string]: any }
 
+/** 输出格式；svg 仅 ECharts（SVG renderer）支持 */
+export type RenderFormat = 'png' | 'jpeg' | 'webp' | 'avif' | 'svg'
+
+export interface RenderOutputOptions {
+  format?: RenderFormat
+  /** 0-100，仅对 jpeg/webp/avif 生效 */
+  quality?: number
+}
+
 export interface LeafRenderPayload {
   width: number
   height: number
@@ -63,9 +323,11 @@ export interface LeafRenderPayload {
   fontFamily: string
   scene?: RenderScene
   tree?: LeaferTree
+  format: RenderFormat
+  quality?: number
 }
 
-export interface LeafRenderOptions {
+export interface LeafRenderOptions extends RenderOutputOptions {
   width?: number
   height?: number
   background?: string | null
@@ -80,11 +342,33 @@ export interface EchartsRenderPayload {
   fontFamily: string
   options: echarts.EChartsOption
   themesDir?: string
+  format: RenderFormat
+  quality?: number
+}
+
+/** bypass：不读也不写缓存；refresh：忽略已有缓存并写回新结果 */
+export type RenderCacheMode = 'bypass' | 'refresh'
+
+export interface RenderCallOptions {
+  cache?: RenderCacheMode
+  /** 中止后排队任务直接移除，运行中的任务会终止所在 worker */
+  signal?: AbortSignal
+  /**
+   * 从调用开始计时（含排队），超时抛出 RenderTimeoutError；缺省时使用 defaultTimeoutMs。
+   * 0 表示不限制，只应由受信任的进程内调用方使用（HTTP/RPC 请求要求至少 1ms）；
+   * 负数、NaN、Infinity 视为未设置
+   */
+  timeoutMs?: number
 }
 
 export interface RenderResultMeta {
   width: number
   height: number
+  format: RenderFormat | AnimationFormat
+  /** 仅动画：帧数 */
+  frameCount?: number
+  /** 仅动画：单次播放总时长（毫秒） */
+  totalDuration?: number
 }
 
 export interface WorkerRenderResult {
@@ -94,8 +378,33 @@ export interface WorkerRenderResult {
 }
 
 export type WorkerJob =
-  | { kind: 'leafui'; payload: LeafRenderPayload; fonts?: FontBootstrap }
-  | { kind: 'echarts'; payload: EchartsRenderPayload; fonts?: FontBootstrap }
+  | { kind: 'leafui'; payload: LeafRenderPayload; fonts?: FontBootstrap; images?: ImagePolicy }
+  | { kind: 'echarts'; payload: EchartsRenderPayload; fonts?: FontBootstrap; images?: ImagePolicy }
+  | { kind: 'animation'; payload: AnimationRenderPayload; fonts?: FontBootstrap; images?: ImagePolicy }
+
+/** worker 内图片加载策略，由主线程配置下发 */
+export interface ImagePolicy {
+  /** 为空时允许任意主机（仍受 denyHosts 约束）；支持 `*.example.com` */
+  allowHosts: string[]
+  denyHosts: string[]
+  maxBytes: number
+  timeoutMs: number
+  /** 宽 × 高上限，超出时在解码前拒绝 */
+  maxPixels: number
+  allowLocalFiles: boolean
+  /** 允许访问解析到回环、私有或链路本地地址的主机 */
+  allowPrivateNetwork: boolean
+  /** 每个 worker 解码缓存的字节上限 */
+  cacheMaxBytes: number
+}
+
+/** 仅同步字体，不渲染；用于字体变更后主动推送到各 worker */
+export type FontSyncJob = { kind: 'fonts'; fonts?: FontBootstrap }
+
+export interface FontSyncResult {
+  loaded: number
+  revision: number | null
+}
 
 export type WorkerResult = WorkerRenderResult
 
@@ -107,14 +416,67 @@ export interface RenderedImage {
   dataURL?: string
 }
 
-export interface LeafRenderRequest extends LeafRenderOptions {
+export interface LeafRenderRequest extends LeafRenderOptions, RenderCallOptions {
   scene?: RenderScene
   tree?: LeaferTree
   nodes?: RenderNode[]
   returnDataURL?: boolean
 }
 
-export interface EchartsRenderRequest {
+/** renderBatch 的单项；kind 缺省为 leaf */
+export type BatchRenderItem =
+  | ({ kind?: 'leaf' } & LeafRenderRequest)
+  | ({ kind: 'echarts' } & EchartsRenderRequest)
+
+export interface BatchErrorInfo {
+  name: string
+  message: string
+}
+
+export type BatchItemResult =
+  | { index: number; ok: true; image: RenderedImage }
+  | { index: number; ok: false; error: BatchErrorInfo }
+
+/** 将成功的结果按网格拼成一张图 */
+export interface SpriteOptions extends RenderOutputOptions {
+  /** 列数，默认 ceil(sqrt(n)) */
+  columns?: number
+  /** 单元格尺寸，默认取各结果的最大宽高；图片按比例缩放后居中 */
+  cellWidth?: number
+  cellHeight?: number
+  gap?: number
+  padding?: number
+  background?: string | null
+  returnDataURL?: boolean
+}
+
+export interface SpriteCell {
+  index: number
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface SpriteSheet extends RenderedImage {
+  /** 每项所在单元格（失败项同样占位，便于按下标取区域） */
+  cells: SpriteCell[]
+}
+
+/** 单项未设置时使用这里的 cache/signal/timeoutMs */
+export interface BatchRenderOptions extends RenderCallOptions {
+  returnDataURL?: boolean
+  sprite?: SpriteOptions | boolean
+}
+
+export interface BatchRenderResult {
+  items: BatchItemResult[]
+  sprite?: SpriteSheet
+  /** 拼图失败时的原因，此时没有 sprite，items 仍然有效 */
+  spriteError?: BatchErrorInfo
+}
+
+export interface EchartsRenderRequest extends RenderOutputOptions, RenderCallOptions {
   options: echarts.EChartsOption
   width?: number
   height?: number
@@ -125,6 +487,81 @@ export interface EchartsRenderRequest {
   returnDataURL?: boolean
 }
 
+export type AnimationFormat = 'gif' | 'apng'
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'step'
+
+export interface AnimationKeyframe {
+  frame: number
+  /** 数值在关键帧之间按 easing 插值；字符串等其它值逐帧保持 */
+  value: number | string | boolean
+}
+
+/** 按节点 id 驱动单个属性，property 支持点路径（如 `shadow.blur`） */
+export interface AnimationTrack {
+  target: string
+  property: string
+  keyframes: AnimationKeyframe[]
+  easing?: Easing
+  /** property 为 text 时数值保留的小数位，默认 0 */
+  precision?: number
+}
+
+export interface AnimationFrame {
+  scene?: RenderScene
+  tree?: LeaferTree
+  nodes?: RenderNode[]
+  /** 覆盖该帧的停留时长（毫秒） */
+  delay?: number
+}
+
+export interface AnimationRenderRequest extends Omit<LeafRenderOptions, 'format' | 'quality'>, RenderCallOptions {
+  format?: AnimationFormat
+  /** 0-100，仅 gif 生效（映射为调色板量化精度） */
+  quality?: number
+  /** 逐帧场景；与 scene/nodes + timeline 二选一 */
+  frames?: AnimationFrame[]
+  scene?: RenderScene
+  nodes?: RenderNode[]
+  timeline?: AnimationTrack[]
+  /** timeline 模式下的总帧数，默认取关键帧最大值 + 1 */
+  frameCount?: number
+  /** 默认 12；设置 delay 时忽略 */
+  fps?: number
+  /** 统一帧间隔（毫秒） */
+  delay?: number
+  /** 循环次数，0 为无限循环 */
+  repeat?: number
+  returnDataURL?: boolean
+}
+
+export interface AnimationRenderPayload {
+  width: number
+  height: number
+  background?: string | null
+  fontFamily: string
+  /** timeline 模式下只有一帧作为基础场景 */
+  frames: Array<{ scene?: RenderScene; tree?: LeaferTree }>
+  timeline?: AnimationTrack[]
+  /** 每帧毫秒数，长度即输出帧数 */
+  delays: number[]
+  format: AnimationFormat
+  quality?: number
+  repeat: number
+}
+
+export type TemplateOutput = RenderNode | RenderNode[] | RenderScene
+
+export type TemplateRender<P = any> = (props: P) => TemplateOutput
+
+/** 模板默认渲染参数，renderTemplate 时可被覆盖 */
+export interface TemplateDefinition<P = any> extends LeafRenderOptions {
+  render: TemplateRender<P>
+  background?: string | null
+}
+
+export type TemplateRenderOptions = Omit<LeafRenderRequest, 'scene' | 'tree' | 'nodes'>
+
 export type LeaferExports = Leafer & {
   load?: (json: unknown) => void | Promise<void>
   import?: (json: unknown) => void | Promise<void>
@@ -142,4 +579,6 @@ export interface FontSourcePayload {
 
 export interface FontBootstrap {
   sources: FontSourcePayload[]
+  /** FontManager 的 lastLoadedAt；变化时 worker 重新扫描目录源 */
+  revision?: number
 }
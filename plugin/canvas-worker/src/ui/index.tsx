@@ -0,0 +1,399 @@
+import {
+	Alert,
+	Badge,
+	Button,
+	Group,
+	Image,
+	JsonInput,
+	Loader,
+	NumberInput,
+	Paper,
+	SegmentedControl,
+	Select,
+	SimpleGrid,
+	Stack,
+	Table,
+	Text,
+	Title,
+} from '@mantine/core'
+import { IconAlertCircle, IconChartBar, IconPlayerPlay, IconRefresh, IconTrash } from '@tabler/icons-react'
+import React, { useCallback, useEffect, useState } from 'react'
+import {
+	definePluginUIModule,
+	type PluginExtensionContext,
+	hmrWebClient,
+	rpcErrorMessage,
+} from '@pluxel/hmr/web'
+import type { CanvasWorkerStats, RenderMetricsSummary } from '../canvas-worker'
+import type { RenderResultMeta } from '../types'
+
+type RenderOutput = { dataURL: string; mime: string; durationMs: number; meta: RenderResultMeta }
+
+type RpcClient = {
+	stats: () => Promise<CanvasWorkerStats>
+	resetMetrics: () => Promise<void>
+	clearCache: () => Promise<void>
+	renderLeaf: (request: unknown) => Promise<RenderOutput>
+	renderEcharts: (request: unknown) => Promise<RenderOutput>
+}
+
+const rpc = (): RpcClient => (hmrWebClient.rpc as any).CanvasWorker as RpcClient
+
+const LEAF_EXAMPLE = JSON.stringify(
+	{
+		nodes: [
+			{
+				type: 'box',
+				x: 40,
+				y: 40,
+				width: 520,
+				padding: 24,
+				gap: 12,
+				direction: 'column',
+				fill: '#f1f5f9',
+				cornerRadius: 16,
+				children: [
+					{ type: 'text', text: 'CanvasWorker Playground', fontSize: 28, fill: '#0f172a' },
+					{ type: 'text', text: '编辑左侧 JSON 后点击渲染', fontSize: 18, fill: '#475569' },
+				],
+			},
+		],
+	},
+	null,
+	2,
+)
+
+const ECHARTS_EXAMPLE = JSON.stringify(
+	{
+		options: {
+			xAxis: { type: 'category', data: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'] },
+			yAxis: { type: 'value' },
+			series: [{ type: 'bar', data: [120, 200, 150, 80, 70] }],
+		},
+	},
+	null,
+	2,
+)
+
+function useCanvasWorkerStats() {
+	const [stats, setStats] = useState<CanvasWorkerStats | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	const fetchStats = useCallback(async () => {
+		try {
+			setStats(await rpc().stats())
+			setError(null)
+		} catch (err) {
+			setError(rpcErrorMessage(err, '无法加载渲染池状态'))
+		}
+	}, [])
+
+	useEffect(() => {
+		void fetchStats()
+	}, [fetchStats])
+
+	useEffect(() => {
+		const sse = hmrWebClient.createSse({ namespaces: ['CanvasWorker'] })
+		const off = sse.ns('CanvasWorker').on((msg) => {
+			const payload = msg.payload as { type?: string; stats?: CanvasWorkerStats } | undefined
+			if (payload?.type === 'stats' && payload.stats) {
+				setStats(payload.stats)
+			}
+		}, ['stats'])
+		return () => {
+			off()
+			sse.close()
+		}
+	}, [])
+
+	return { stats, error, fetchStats }
+}
+
+function StatCard({ label, value, hint }: { label: string; value: React.ReactNode; hint?: string }) {
+	return (
+		<Paper withBorder p="sm" radius="md">
+			<Text size="xs" c="dimmed">
+				{label}
+			</Text>
+			<Text fw={700} size="xl">
+				{value}
+			</Text>
+			{hint ? (
+				<Text size="xs" c="dimmed">
+					{hint}
+				</Text>
+			) : null}
+		</Paper>
+	)
+}
+
+function MetricsTable({ title, rows }: { title: string; rows: Record<string, RenderMetricsSummary> }) {
+	const entries = Object.entries(rows).sort((a, b) => b[1].count - a[1].count)
+	return (
+		<Paper withBorder p="md" radius="md">
+			<Text fw={600} mb="sm">
+				{title}
+			</Text>
+			{entries.length ? (
+				<Table verticalSpacing="xs" striped>
+					<Table.Thead>
+						<Table.Tr>
+							<Table.Th>名称</Table.Th>
+							<Table.Th>次数</Table.Th>
+							<Table.Th>p50</Table.Th>
+							<Table.Th>p95</Table.Th>
+							<Table.Th>最大</Table.Th>
+							<Table.Th>错误率</Table.Th>
+							<Table.Th>拒绝</Table.Th>
+						</Table.Tr>
+					</Table.Thead>
+					<Table.Tbody>
+						{entries.map(([key, row]) => (
+							<Table.Tr key={key}>
+								<Table.Td>
+									<Text size="sm" fw={600}>
+										{key}
+									</Text>
+								</Table.Td>
+								<Table.Td>{row.count}</Table.Td>
+								<Table.Td>{row.p50} ms</Table.Td>
+								<Table.Td>{row.p95} ms</Table.Td>
+								<Table.Td>{row.max} ms</Table.Td>
+								<Table.Td>
+									<Badge color={row.errorRate > 0.05 ? 'red' : row.errorRate > 0 ? 'yellow' : 'teal'} variant="light">
+										{(row.errorRate * 100).toFixed(1)}%
+									</Badge>
+								</Table.Td>
+								<Table.Td>{row.rejected}</Table.Td>
+							</Table.Tr>
+						))}
+					</Table.Tbody>
+				</Table>
+			) : (
+				<Text size="sm" c="dimmed">
+					窗口内暂无任务
+				</Text>
+			)}
+		</Paper>
+	)
+}
+
+function CanvasWorkerStatusTab({ ctx }: { ctx: PluginExtensionContext }) {
+	const { stats, error, fetchStats } = useCanvasWorkerStats()
+	const [busy, setBusy] = useState<string | null>(null)
+
+	const run = async (key: string, action: () => Promise<void>) => {
+		setBusy(key)
+		try {
+			await action()
+			await fetchStats()
+		} finally {
+			setBusy(null)
+		}
+	}
+
+	if (!stats) {
+		return error ? (
+			<Alert icon={<IconAlertCircle size={16} />} color="red">
+				{error}
+			</Alert>
+		) : (
+			<Group justify="center" py="md">
+				<Loader size="sm" />
+			</Group>
+		)
+	}
+
+	const { pool, metrics, cache } = stats
+	const windowMinutes = Math.round(metrics.windowMs / 60_000)
+
+	return (
+		<Stack gap="md">
+			<Group justify="space-between">
+				<Group gap="xs">
+					<IconChartBar size={18} />
+					<Title order={4}>渲染池</Title>
+					<Badge variant="light">最近 {windowMinutes} 分钟</Badge>
+				</Group>
+				<Group gap="xs">
+					<Button
+						size="xs"
+						variant="light"
+						leftSection={<IconRefresh size={14} />}
+						loading={busy === 'metrics'}
+						onClick={() => void run('metrics', () => rpc().resetMetrics())}
+					>
+						重置统计
+					</Button>
+					<Button
+						size="xs"
+						variant="light"
+						color="red"
+						leftSection={<IconTrash size={14} />}
+						loading={busy === 'cache'}
+						disabled={!cache}
+						onClick={() => void run('cache', () => rpc().clearCache())}
+					>
+						清空缓存
+					</Button>
+				</Group>
+			</Group>
+			{error ? (
+				<Alert icon={<IconAlertCircle size={16} />} color="red">
+					{error}
+				</Alert>
+			) : null}
+			<SimpleGrid cols={{ base: 2, md: 4 }}>
+				<StatCard label="线程" value={`${pool.threads}/${pool.maxThreads}`} hint={`已完成 ${pool.completed}`} />
+				<StatCard
+					label="排队"
+					value={pool.queueSize + pool.waiting}
+					hint={`池内 ${pool.queueSize}，等待配额 ${pool.waiting}${pool.maxQueue ? `，上限 ${pool.maxQueue}` : ''}`}
+				/>
+				<StatCard
+					label="耗时 p50 / p95"
+					value={`${metrics.total.p50} / ${metrics.total.p95} ms`}
+					hint={`共 ${metrics.total.count} 次`}
+				/>
+				<StatCard
+					label="缓存"
+					value={cache ? `${cache.entries} 项` : '未启用'}
+					hint={cache ? `命中 ${cache.hits + cache.diskHits}，未命中 ${cache.misses}` : undefined}
+				/>
+			</SimpleGrid>
+			<MetricsTable title="按任务类型" rows={metrics.byKind} />
+			<MetricsTable title="按调用插件" rows={metrics.byCaller} />
+			{stats.templates.length ? (
+				<Paper withBorder p="md" radius="md">
+					<Text fw={600} mb="xs">
+						已注册模板
+					</Text>
+					<Group gap={6}>
+						{stats.templates.map((name) => (
+							<Badge key={name} variant="outline">
+								{name}
+							</Badge>
+						))}
+					</Group>
+				</Paper>
+			) : null}
+		</Stack>
+	)
+}
+
+function CanvasWorkerPlaygroundTab({ ctx }: { ctx: PluginExtensionContext }) {
+	const [kind, setKind] = useState<'leaf' | 'echarts'>('leaf')
+	const [source, setSource] = useState(LEAF_EXAMPLE)
+	const [width, setWidth] = useState<number>(600)
+	const [height, setHeight] = useState<number>(400)
+	const [format, setFormat] = useState('png')
+	const [rendering, setRendering] = useState(false)
+	const [output, setOutput] = useState<RenderOutput | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	const switchKind = (next: string) => {
+		const value = next === 'echarts' ? 'echarts' : 'leaf'
+		setKind(value)
+		setSource(value === 'echarts' ? ECHARTS_EXAMPLE : LEAF_EXAMPLE)
+		if (value === 'leaf' && format === 'svg') setFormat('png')
+		setOutput(null)
+		setError(null)
+	}
+
+	const handleRender = async () => {
+		setRendering(true)
+		try {
+			const body = { ...JSON.parse(source), width, height, format, cache: 'bypass' }
+			const result = kind === 'leaf' ? await rpc().renderLeaf(body) : await rpc().renderEcharts(body)
+			setOutput(result)
+			setError(null)
+		} catch (err) {
+			setError(err instanceof SyntaxError ? `JSON 解析失败：${err.message}` : rpcErrorMessage(err, '渲染失败'))
+		} finally {
+			setRendering(false)
+		}
+	}
+
+	const formats = kind === 'echarts' ? ['png', 'jpeg', 'webp', 'avif', 'svg'] : ['png', 'jpeg', 'webp', 'avif']
+
+	return (
+		<SimpleGrid cols={{ base: 1, lg: 2 }}>
+			<Paper withBorder p="md" radius="md">
+				<Stack gap="sm">
+					<SegmentedControl
+						value={kind}
+						onChange={switchKind}
+						data={[
+							{ value: 'leaf', label: 'LeafUI 场景' },
+							{ value: 'echarts', label: 'ECharts' },
+						]}
+					/>
+					<JsonInput
+						value={source}
+						onChange={setSource}
+						autosize
+						minRows={16}
+						maxRows={28}
+						validationError="JSON 格式错误"
+						formatOnBlur
+					/>
+					<Group grow>
+						<NumberInput label="宽" value={width} min={1} max={4096} onChange={(val) => setWidth(Number(val) || 1)} />
+						<NumberInput label="高" value={height} min={1} max={4096} onChange={(val) => setHeight(Number(val) || 1)} />
+						<Select label="格式" data={formats} value={format} onChange={(val) => setFormat(val ?? 'png')} />
+					</Group>
+					<Button leftSection={<IconPlayerPlay size={14} />} loading={rendering} onClick={() => void handleRender()}>
+						渲染
+					</Button>
+				</Stack>
+			</Paper>
+			<Paper withBorder p="md" radius="md">
+				{error ? (
+					<Alert icon={<IconAlertCircle size={16} />} color="red">
+						{error}
+					</Alert>
+				) : output ? (
+					<Stack gap="xs">
+						<Group gap={6}>
+							<Badge variant="light">{output.mime}</Badge>
+							<Badge variant="light" color="teal">
+								{output.durationMs} ms
+							</Badge>
+							<Badge variant="outline">
+								{output.meta.width}×{output.meta.height}
+							</Badge>
+						</Group>
+						<Image src={output.dataURL} alt="render result" fit="contain" radius="sm" />
+					</Stack>
+				) : (
+					<Text size="sm" c="dimmed" ta="center" py="xl">
+						渲染结果会显示在这里
+					</Text>
+				)}
+			</Paper>
+		</SimpleGrid>
+	)
+}
+
+const module = definePluginUIModule({
+	extensions: [
+		{
+			point: 'plugin:tabs',
+			id: 'canvas-worker-status',
+			priority: 16,
+			meta: { label: '渲染池' },
+			when: (ctx) => ctx.pluginName === 'CanvasWorker',
+			Component: CanvasWorkerStatusTab,
+		},
+		{
+			point: 'plugin:tabs',
+			id: 'canvas-worker-playground',
+			priority: 15,
+			meta: { label: 'Playground' },
+			when: (ctx) => ctx.pluginName === 'CanvasWorker',
+			Component: CanvasWorkerPlaygroundTab,
+		},
+	],
+})
+
+export default module
@@ -3,7 +3,22 @@ import { Buffer } from 'node:buffer'
 import fs from 'node:fs'
 import path from 'node:path'
 
-import { Leafer, Rect, Text, Image, useCanvas } from '@leafer-ui/node'
+import {
+  Ellipse,
+  Group,
+  Image,
+  ImageManager,
+  Leafer,
+  Line,
+  Path,
+  Platform,
+  Polygon,
+  Rect,
+  Resource,
+  Star,
+  Text,
+  useCanvas,
+} from '@leafer-ui/node'
 import {
   GlobalFonts,
   Image as SkiaImage,
@@ -12,10 +27,19 @@ import {
 } from 'pluxel-plugin-napi-rs/canvas'
 import * as skia from 'pluxel-plugin-napi-rs/canvas'
 
+import { applyTimeline, encodeApng } from './animation.mjs'
+import { DEFAULT_IMAGE_POLICY, loadImageSource, prepareImages } from './image-loader.mjs'
+import { createTextMeasurer, resolveLayout } from './layout.mjs'
+
+/** @typedef {import('./types').AnimationRenderPayload} AnimationRenderPayload */
 /** @typedef {import('./types').FontBootstrap} FontBootstrap */
 /** @typedef {import('./types').FontSourcePayload} FontSourcePayload */
+/** @typedef {import('./types').FontSyncJob} FontSyncJob */
+/** @typedef {import('./types').FontSyncResult} FontSyncResult */
+/** @typedef {import('./types').ImagePolicy} ImagePolicy */
 /** @typedef {import('./types').LeaferExports} LeaferExports */
 /** @typedef {import('./types').LeaferStatic} LeaferStatic */
+/** @typedef {import('./types').RenderFormat} RenderFormat */
 /** @typedef {import('./types').RenderNode} RenderNode */
 /** @typedef {import('./types').RenderScene} RenderScene */
 /** @typedef {import('./types').WorkerJob} WorkerJob */
@@ -27,7 +51,10 @@ import * as skia from 'pluxel-plugin-napi-rs/canvas'
  * @property {boolean} echartsPlatformReady
  * @property {Set<string>} loadedThemeFiles
  * @property {Promise<typeof import('echarts')>|null} echartsModulePromise
- * @property {string|null} fontsLoadedKey
+ * @property {Set<string>} loadedFontSources
+ * @property {number|null} fontsRevision
+ * @property {ImagePolicy} imagePolicy 当前任务的图片策略；concurrentTasksPerWorker=1，按任务切换即可
+ * @property {Map<string, Uint8Array>} imageBytes 当前任务的字节图片，任务结束前不随解码缓存淘汰
  */
 
 /** @type {RuntimeState} */
@@ -36,9 +63,15 @@ const runtime = {
   echartsPlatformReady: false,
   loadedThemeFiles: new Set(),
   echartsModulePromise: null,
-  fontsLoadedKey: null,
+  loadedFontSources: new Set(),
+  fontsRevision: null,
+  imagePolicy: DEFAULT_IMAGE_POLICY,
+  imageBytes: new Map(),
 }
 
+/** RenderNode 的 textDecoration 到 Leafer 取值 */
+const TEXT_DECORATION = { none: 'none', underline: 'under', 'line-through': 'delete' }
+
 function patchCanvasBackend(canvasLib) {
   const CanvasElement = canvasLib?.CanvasElement || canvasLib?.Canvas
   if (
@@ -57,9 +90,43 @@ function ensureCanvas() {
   if (runtime.canvasRegistered) return
   patchCanvasBackend(skia)
   useCanvas('skia', skia)
+  patchImageLoader()
   runtime.canvasRegistered = true
 }
 
+/**
+ * Leafer 默认直接用 skia loadImage 拉取 url，这里统一改走受策略约束、带缓存的加载层，
+ * tree / leafer-json 场景里的图片也因此受同样的限制
+ */
+function patchImageLoader() {
+  const origin = /** @type {any} */ (Platform).origin
+  if (!origin || typeof origin.loadImage !== 'function') return
+  origin.loadImage = async (/** @type {string} */ src) => {
+    const { image } = await loadImageSource(src, runtime.imagePolicy, runtime.imageBytes)
+    return image
+  }
+}
+
+/**
+ * Leafer 按 url 保留解码过的图片供后续复用；每个任务开始前清掉未在使用的，
+ * 否则 tree / leafer-json 场景会直接复用上个任务的图片而绕过本任务的图片策略
+ */
+function releaseLeaferImages() {
+  ImageManager.clearRecycled(true)
+  for (const [url, image] of Object.entries(/** @type {Record<string, any>} */ (Resource.map))) {
+    if (!image?.use) Resource.remove(url)
+  }
+}
+
+/**
+ * @param {RenderScene | undefined} scene
+ * @returns {Promise<RenderScene | undefined>}
+ */
+async function prepareScene(scene) {
+  if (scene?.kind !== 'nodes') return scene
+  return { kind: 'nodes', nodes: await prepareImages(scene.nodes, runtime.imagePolicy, runtime.imageBytes) }
+}
+
 /** @returns {Promise<typeof import('echarts')>} */
 async function getEcharts() {
   if (!runtime.echartsModulePromise) {
@@ -79,19 +146,13 @@ async function ensureEchartsPlatform(echarts) {
       const img = new SkiaImage()
       img.onload = onload
       img.onerror = onerror
-
-      if (typeof src === 'string' && src.trimStart().startsWith('data:')) {
-        const commaIdx = src.indexOf(',')
-        const encoding = src.lastIndexOf('base64', commaIdx) < 0 ? 'utf-8' : 'base64'
-        const data = Buffer.from(src.slice(commaIdx + 1), encoding)
-        img.src = data
+      if (typeof src !== 'string') {
+        img.src = /** @type {any} */ (src)
         return /** @type {any} */ (img)
       }
-
-      void Promise.resolve(loadImageFromCanvas(/** @type {any} */ (src))).then(
-        (loaded) => {
-          const content = loaded?.src ?? loaded
-          img.src = content
+      void loadImageSource(src, runtime.imagePolicy, runtime.imageBytes).then(
+        ({ image }) => {
+          img.src = image.src
         },
         onerror,
       )
@@ -101,29 +162,37 @@ async function ensureEchartsPlatform(echarts) {
   runtime.echartsPlatformReady = true
 }
 
-/** @param {FontBootstrap|undefined} fonts */
-function fontKey(fonts) {
-  if (!fonts?.sources?.length) return 'none'
-  const normalized = fonts.sources
-    .map((source) => `${source.type}:${path.resolve(source.path)}:${source.alias ?? ''}`)
-    .sort()
-  return normalized.join('|')
+/** @param {FontSourcePayload} source */
+function fontSourceKey(source) {
+  return `${source.type}:${path.resolve(source.path)}:${source.alias ?? ''}`
 }
 
-/** @param {FontBootstrap|undefined} fonts */
+/**
+ * 增量加载：只加载本 worker 尚未加载过的源；revision 变化时重新扫描目录源以拾取新增文件。
+ * GlobalFonts 不支持按路径卸载，被移除的源在 worker 回收前仍保持已注册。
+ * @param {FontBootstrap|undefined} fonts
+ * @returns {number} 本次新加载的源数量
+ */
 function loadFontsOnce(fonts) {
-  const key = fontKey(fonts)
-  if (runtime.fontsLoadedKey === key) return
+  if (!fonts?.sources?.length) return 0
 
-  if (!fonts?.sources?.length) {
-    runtime.fontsLoadedKey = key
-    return
+  const revision = fonts.revision ?? null
+  if (revision !== runtime.fontsRevision) {
+    for (const key of runtime.loadedFontSources) {
+      if (key.startsWith('dir:')) runtime.loadedFontSources.delete(key)
+    }
+    runtime.fontsRevision = revision
   }
 
+  let loaded = 0
   for (const source of fonts.sources) {
+    const key = fontSourceKey(source)
+    if (runtime.loadedFontSources.has(key)) continue
     loadFontSource(source)
+    runtime.loadedFontSources.add(key)
+    loaded++
   }
-  runtime.fontsLoadedKey = key
+  return loaded
 }
 
 /** @param {FontSourcePayload} source */
@@ -183,6 +252,53 @@ function addNodes(parent, nodes, fontFamily) {
   }
 }
 
+/**
+ * 去掉值为 undefined 的键，避免覆盖 Leafer 的默认属性
+ * @template {Record<string, any>} T
+ * @param {T} props
+ * @returns {T}
+ */
+function compact(props) {
+  for (const key of Object.keys(props)) {
+    if (props[key] === undefined) delete props[key]
+  }
+  return props
+}
+
+/**
+ * 所有节点共用的变换与效果属性
+ * @param {RenderNode} node
+ */
+function commonProps(node) {
+  return {
+    id: node.id,
+    name: node.name,
+    rotation: node.rotation,
+    scaleX: node.scaleX,
+    scaleY: node.scaleY,
+    origin: node.origin,
+    shadow: node.shadow,
+    innerShadow: node.innerShadow,
+    blendMode: node.blendMode,
+    mask: node.mask,
+  }
+}
+
+/**
+ * @param {RenderNode & import('./types').ShapeStyle} node
+ * @param {import('./types').Paint} [defaultFill]
+ */
+function shapeProps(node, defaultFill) {
+  return {
+    ...commonProps(node),
+    fill: node.fill ?? defaultFill,
+    stroke: node.stroke,
+    strokeWidth: node.strokeWidth,
+    dashPattern: node.dashPattern,
+    opacity: node.opacity,
+  }
+}
+
 /**
  * @param {RenderNode} node
  * @param {string} fontFamily
@@ -190,46 +306,126 @@ function addNodes(parent, nodes, fontFamily) {
 function createNode(node, fontFamily) {
   switch (node.type) {
     case 'rect':
-      return Rect.one(
-        {
-          fill: node.fill ?? '#ffffff',
+      // Rect.one 的位置参数依次是 x/y/width/height，尺寸只能放在属性里
+      return new Rect(
+        compact({
+          ...shapeProps(node, '#ffffff'),
           cornerRadius: node.cornerRadius,
-          opacity: node.opacity,
-          stroke: node.stroke,
-          strokeWidth: node.strokeWidth,
           x: node.x,
           y: node.y,
-        },
-        node.width,
-        node.height,
+          width: node.width,
+          height: node.height,
+        }),
       )
     case 'text':
-      return new Text({
-        text: node.text,
-        x: node.x,
-        y: node.y,
-        fill: node.fill ?? '#111',
-        fontSize: node.fontSize ?? 18,
-        fontFamily,
-        fontWeight: node.fontWeight,
-        textAlign: node.textAlign,
-        maxWidth: node.maxWidth,
-      })
+      return new Text(
+        compact({
+          ...commonProps(node),
+          text: node.text,
+          x: node.x,
+          y: node.y,
+          fill: node.fill ?? '#111',
+          fontSize: node.fontSize ?? 18,
+          fontFamily: node.fontFamily ?? fontFamily,
+          fontWeight: node.fontWeight,
+          italic: node.italic,
+          textDecoration: node.textDecoration && TEXT_DECORATION[node.textDecoration],
+          textAlign: node.textAlign,
+          maxWidth: node.maxWidth,
+          width: node.width,
+          lineHeight: node.lineHeight === undefined ? undefined : { type: 'percent', value: node.lineHeight },
+          textWrap: node.textWrap,
+          opacity: node.opacity,
+        }),
+      )
     case 'image':
-      return new Image({
-        url: node.url ?? node.src,
-        x: node.x,
-        y: node.y,
-        width: node.width,
-        height: node.height,
-        opacity: node.opacity,
-        mode: node.mode,
-      })
+      return new Image(
+        compact({
+          ...commonProps(node),
+          url: node.url ?? (typeof node.src === 'string' ? node.src : undefined),
+          x: node.x,
+          y: node.y,
+          width: node.width,
+          height: node.height,
+          opacity: node.opacity,
+          cornerRadius: node.cornerRadius,
+          mode: node.mode,
+        }),
+      )
     case 'group':
-      return new Leafer({
-        width: /** @type {any} */ (node).width ?? 0,
-        height: /** @type {any} */ (node).height ?? 0,
-      })
+      return new Group(
+        compact({
+          ...commonProps(node),
+          x: node.x,
+          y: node.y,
+          opacity: node.opacity,
+        }),
+      )
+    case 'path':
+      return new Path(
+        compact({
+          ...shapeProps(node, '#000000'),
+          path: node.path,
+          x: node.x,
+          y: node.y,
+          windingRule: node.windingRule,
+        }),
+      )
+    case 'ellipse':
+      return new Ellipse(
+        compact({
+          ...shapeProps(node, '#ffffff'),
+          x: node.x,
+          y: node.y,
+          width: node.width,
+          height: node.height,
+          startAngle: node.startAngle,
+          endAngle: node.endAngle,
+          innerRadius: node.innerRadius,
+        }),
+      )
+    case 'line':
+      return new Line(
+        compact({
+          ...commonProps(node),
+          points: node.points,
+          x: node.x,
+          y: node.y,
+          stroke: node.stroke ?? '#000000',
+          strokeWidth: node.strokeWidth ?? 1,
+          strokeCap: node.strokeCap,
+          strokeJoin: node.strokeJoin,
+          dashPattern: node.dashPattern,
+          curve: node.curve,
+          opacity: node.opacity,
+        }),
+      )
+    case 'polygon':
+      return new Polygon(
+        compact({
+          ...shapeProps(node, '#ffffff'),
+          x: node.x,
+          y: node.y,
+          width: node.width,
+          height: node.height,
+          sides: node.points ? undefined : node.sides ?? 3,
+          points: node.points,
+          cornerRadius: node.cornerRadius,
+        }),
+      )
+    case 'star':
+      return new Star(
+        compact({
+          ...shapeProps(node, '#ffffff'),
+          x: node.x,
+          y: node.y,
+          width: node.width,
+          height: node.height,
+          corners: node.corners,
+          innerRadius: node.innerRadius,
+          cornerRadius: node.cornerRadius,
+        }),
+      )
     default:
       return null
   }
@@ -246,6 +442,60 @@ function bufferFromExport(data) {
   throw new Error('Unsupported export data type')
 }
 
+/**
+ * @param {any} canvas skia Canvas
+ * @param {Exclude<RenderFormat, 'svg'>} format
+ * @param {number|undefined} quality 0-100
+ * @returns {Promise<Buffer>}
+ */
+async function encodeCanvas(canvas, format, quality) {
+  const arg = format === 'png' ? undefined : format === 'avif' ? (quality === undefined ? undefined : { quality }) : quality
+  if (typeof canvas?.toBuffer === 'function') {
+    return /** @type {Buffer} */ (canvas.toBuffer(`image/${format}`, arg))
+  }
+  if (typeof canvas?.encode === 'function') {
+    const encoded = await canvas.encode(format, arg)
+    return Buffer.isBuffer(encoded) ? encoded : Buffer.from(encoded)
+  }
+  throw new Error('Canvas backend does not support toBuffer/encode')
+}
+
+/**
+ * 取得 Leafer 绘制结果对应的 skia canvas；导出不到原生 canvas 时经 png 解码重绘
+ * @param {Leafer} leafer
+ * @returns {Promise<any>}
+ */
+async function leaferToCanvas(leafer) {
+  const exported = /** @type {any} */ (await leafer.export('canvas'))
+  const view = exported?.data?.view ?? exported?.data
+  if (view && typeof view.getContext === 'function') return view
+
+  const png = bufferFromExport((await leafer.export('png'))?.data)
+  const image = await loadImageFromCanvas(png)
+  const canvas = createSkiaCanvas(image.width, image.height)
+  canvas.getContext('2d').drawImage(image, 0, 0)
+  return canvas
+}
+
+/**
+ * @param {Leafer} leafer
+ * @param {RenderFormat} format
+ * @param {number|undefined} quality 0-100
+ * @returns {Promise<Buffer>}
+ */
+async function exportLeafer(leafer, format, quality) {
+  if (format === 'svg') {
+    throw new Error('svg output is not supported for LeafUI renders')
+  }
+  // Leafer 只能导出 png/jpg/webp，avif 走底层 skia canvas 编码
+  if (format === 'avif') {
+    return encodeCanvas(await leaferToCanvas(leafer), format, quality)
+  }
+  const ext = format === 'jpeg' ? 'jpg' : format
+  const exportResult = await leafer.export(ext, quality === undefined ? undefined : { quality: quality / 100 })
+  return bufferFromExport(exportResult?.data ?? exportResult)
+}
+
 /**
  * @param {WorkerJob & { kind: 'leafui' }} job
  * @returns {Promise<WorkerRenderResult>}
@@ -255,14 +505,14 @@ async function renderLeafui(job) {
   loadFontsOnce(job.fonts)
   const started = Date.now()
   const payload = job.payload
-  const leafer = createLeaferFromPayload(payload)
+  const format = payload.format ?? 'png'
+  const leafer = createLeaferFromPayload({ ...payload, scene: await prepareScene(payload.scene) })
   try {
-    const exportResult = await /** @type {Leafer} */ (leafer).export('png')
-    const buffer = bufferFromExport(exportResult?.data ?? exportResult)
+    const buffer = await exportLeafer(/** @type {Leafer} */ (leafer), format, payload.quality)
     return {
       buffer: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength),
       durationMs: Date.now() - started,
-      meta: { width: payload.width, height: payload.height },
+      meta: { width: payload.width, height: payload.height, format },
     }
   } finally {
     leafer.destroy?.()
@@ -281,9 +531,9 @@ async function renderEcharts(job) {
 
   const started = Date.now()
   const payload = job.payload
+  const format = payload.format ?? 'png'
   registerThemesFromDir(echarts, payload.themesDir)
 
-  const canvas = createSkiaCanvas(payload.width, payload.height)
   /** @type {import('echarts').EChartsOption} */
   const appliedOptions = { animation: false, ...payload.options }
   appliedOptions.textStyle = {
@@ -292,32 +542,107 @@ async function renderEcharts(job) {
     ...(appliedOptions.textStyle ?? {}),
   }
 
-  const chart = echarts.init(/** @type {any} */ (canvas), payload.theme, {
-    renderer: 'canvas',
-    width: payload.width,
-    height: payload.height,
-  })
   /** @type {Buffer} */
   let buffer
-  try {
-    chart.setOption(appliedOptions)
-
-    if (typeof /** @type {any} */ (canvas).toBuffer === 'function') {
-      buffer = /** @type {Buffer} */ ((/** @type {any} */ (canvas)).toBuffer('image/png'))
-    } else if (typeof /** @type {any} */ (canvas).encode === 'function') {
-      const encoded = await /** @type {any} */ (canvas).encode('png')
-      buffer = Buffer.isBuffer(encoded) ? encoded : Buffer.from(encoded)
-    } else {
-      throw new Error('Canvas backend does not support toBuffer/encode')
+  if (format === 'svg') {
+    const chart = echarts.init(null, payload.theme, {
+      renderer: 'svg',
+      ssr: true,
+      width: payload.width,
+      height: payload.height,
+    })
+    try {
+      chart.setOption(appliedOptions)
+      buffer = Buffer.from(chart.renderToSVGString(), 'utf8')
+    } finally {
+      chart.dispose()
+    }
+  } else {
+    const canvas = createSkiaCanvas(payload.width, payload.height)
+    const chart = echarts.init(/** @type {any} */ (canvas), payload.theme, {
+      renderer: 'canvas',
+      width: payload.width,
+      height: payload.height,
+    })
+    try {
+      chart.setOption(appliedOptions)
+      buffer = await encodeCanvas(canvas, format, payload.quality)
+    } finally {
+      chart.dispose()
     }
-  } finally {
-    chart.dispose()
   }
 
   return {
     buffer: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength),
     durationMs: Date.now() - started,
-    meta: { width: payload.width, height: payload.height },
+    meta: { width: payload.width, height: payload.height, format },
+  }
+}
+
+/**
+ * 逐帧构建 Leafer 并编码为 gif/apng；timeline 模式下每帧由基础场景叠加关键帧得到
+ * @param {WorkerJob & { kind: 'animation' }} job
+ * @returns {Promise<WorkerRenderResult>}
+ */
+async function renderAnimation(job) {
+  ensureCanvas()
+  loadFontsOnce(job.fonts)
+  const started = Date.now()
+  const payload = /** @type {AnimationRenderPayload} */ (job.payload)
+  const { width, height, delays, format, timeline } = payload
+  if (!payload.frames.length || !delays.length) throw new Error('Animation requires at least one frame')
+
+  const gif =
+    format === 'gif'
+      ? new skia.GifEncoder(width, height, {
+          repeat: payload.repeat,
+          // 0-100（越高越好）映射到 NeuQuant 的 1-30（越低越好）
+          quality: payload.quality === undefined ? undefined : Math.round(30 - (payload.quality / 100) * 29),
+        })
+      : null
+  /** @type {Buffer[]} */
+  const pngFrames = []
+
+  try {
+    for (let index = 0; index < delays.length; index++) {
+      const source = payload.frames[Math.min(index, payload.frames.length - 1)]
+      const scene = await prepareScene(
+        timeline?.length && source.scene?.kind === 'nodes'
+          ? { kind: 'nodes', nodes: applyTimeline(source.scene.nodes, timeline, index) }
+          : source.scene,
+      )
+      const leafer = createLeaferFromPayload({ ...payload, scene, tree: source.tree })
+      try {
+        const canvas = await leaferToCanvas(/** @type {Leafer} */ (leafer))
+        if (gif) {
+          const { data } = canvas.getContext('2d').getImageData(0, 0, width, height)
+          gif.addFrame(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), width, height, {
+            delay: delays[index],
+            // 透明背景下不清除会叠加上一帧
+            disposal: payload.background ? 0 : 1,
+          })
+        } else {
+          pngFrames.push(await encodeCanvas(canvas, 'png', undefined))
+        }
+      } finally {
+        leafer.destroy?.()
+      }
+    }
+
+    const buffer = gif ? gif.finish() : encodeApng(pngFrames, delays, width, height, payload.repeat)
+    return {
+      buffer: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength),
+      durationMs: Date.now() - started,
+      meta: {
+        width,
+        height,
+        format,
+        frameCount: delays.length,
+        totalDuration: delays.reduce((sum, delay) => sum + delay, 0),
+      },
+    }
+  } finally {
+    gif?.dispose()
   }
 }
 
@@ -348,7 +673,7 @@ function createLeaferFromPayload(payload) {
 
   if (tree && applyTree(leafer, tree)) {
     if (background) {
-      leafer.add(Rect.one({ fill: background, x: 0, y: 0 }, width, height))
+      leafer.add(new Rect({ fill: background, x: 0, y: 0, width, height }))
     }
     return leafer
   }
@@ -368,26 +693,47 @@ function createLeaferFromPayload(payload) {
   }
 
   if (background) {
-    leafer.add(Rect.one({ fill: background, x: 0, y: 0 }, width, height))
+    leafer.add(new Rect({ fill: background, x: 0, y: 0, width, height }))
   }
 
   if (scene?.kind === 'nodes') {
-    addNodes(leafer, scene.nodes, fontFamily)
+    // box 布局需要用实际字体测量文本，必须在字体加载之后、构建 Leafer 树之前完成
+    const measurer = createTextMeasurer(createSkiaCanvas, fontFamily)
+    addNodes(leafer, resolveLayout(scene.nodes, measurer, { width, height }), fontFamily)
   }
   return leafer
 }
 
 /**
- * @param {WorkerJob} job
- * @returns {Promise<WorkerRenderResult>}
+ * @param {FontSyncJob} job
+ * @returns {FontSyncResult}
+ */
+function syncFonts(job) {
+  const loaded = loadFontsOnce(job.fonts)
+  return { loaded, revision: runtime.fontsRevision }
+}
+
+/**
+ * @param {WorkerJob | FontSyncJob} job
+ * @returns {Promise<WorkerRenderResult | FontSyncResult>}
  */
 export default async function run(job) {
-  switch (job.kind) {
-    case 'leafui':
-      return renderLeafui(/** @type {any} */ (job))
-    case 'echarts':
-      return renderEcharts(/** @type {any} */ (job))
-    default:
-      throw new Error(`Unknown worker job: ${/** @type {any} */ (job)?.kind}`)
+  if (job.kind === 'fonts') return syncFonts(job)
+  runtime.imagePolicy = job.images ?? DEFAULT_IMAGE_POLICY
+  runtime.imageBytes = new Map()
+  releaseLeaferImages()
+  try {
+    switch (job.kind) {
+      case 'leafui':
+        return await renderLeafui(/** @type {any} */ (job))
+      case 'echarts':
+        return await renderEcharts(/** @type {any} */ (job))
+      case 'animation':
+        return await renderAnimation(/** @type {any} */ (job))
+      default:
+        throw new Error(`Unknown worker job: ${/** @type {any} */ (job)?.kind}`)
+    }
+  } finally {
+    runtime.imageBytes = new Map()
   }
 }
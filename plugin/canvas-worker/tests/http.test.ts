@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'bun:test'
+import { createHmac, randomBytes } from 'node:crypto'
+import { v } from '@pluxel/hmr/config'
+
+import {
+  LeafHttpRequestSchema,
+  SignedQueryError,
+  clampRequestTimeout,
+  decodeSignedQuery,
+  encodeSignedQuery,
+  matchesETag,
+} from '../src/http.ts'
+
+const SECRET = 'test-secret'
+const request = { width: 320, height: 200, nodes: [{ type: 'rect', width: 10, height: 10, fill: '#000' }] }
+
+function expectSignedError(fn: () => unknown, message: string) {
+  expect(fn).toThrow(SignedQueryError)
+  expect(fn).toThrow(message)
+}
+
+describe('signed query', () => {
+  it('round-trips the request', () => {
+    const { d, s } = encodeSignedQuery(SECRET, 'leaf', request)
+    expect(decodeSignedQuery(SECRET, 'leaf', d, s)).toEqual(request)
+  })
+
+  it('rejects missing parts, tampered payloads, other kinds and other secrets', () => {
+    const { d, s } = encodeSignedQuery(SECRET, 'leaf', request)
+    const tampered = encodeSignedQuery(SECRET, 'leaf', { ...request, width: 4096 }).d
+
+    expectSignedError(() => decodeSignedQuery(SECRET, 'leaf', d, undefined), 'missing signed payload')
+    expectSignedError(() => decodeSignedQuery(SECRET, 'leaf', tampered, s), 'invalid signature')
+    expectSignedError(() => decodeSignedQuery(SECRET, 'leaf', d, `${s}x`), 'invalid signature')
+    expectSignedError(() => decodeSignedQuery(SECRET, 'echarts', d, s), 'invalid signature')
+    expectSignedError(() => decodeSignedQuery('other-secret', 'leaf', d, s), 'invalid signature')
+  })
+
+  it('honours the expiry time', () => {
+    const valid = encodeSignedQuery(SECRET, 'leaf', request, Date.now() + 60_000)
+    expect(decodeSignedQuery(SECRET, 'leaf', valid.d, valid.s)).toEqual(request)
+
+    const expired = encodeSignedQuery(SECRET, 'leaf', request, Date.now() - 1)
+    expectSignedError(() => decodeSignedQuery(SECRET, 'leaf', expired.d, expired.s), 'signed url expired')
+  })
+
+  it('rejects payloads that inflate beyond the size cap', () => {
+    // 高度可压缩的内容，压缩后很小但解压超过 1MB
+    const { d, s } = encodeSignedQuery(SECRET, 'leaf', { padding: 'a'.repeat(2 * 1024 * 1024) })
+    expect(d.length).toBeLessThan(64 * 1024)
+    expectSignedError(() => decodeSignedQuery(SECRET, 'leaf', d, s), 'malformed payload')
+  })
+
+  it('rejects correctly signed payloads that cannot be decoded', () => {
+    const garbage = randomBytes(32).toString('base64url')
+    const s = createHmac('sha256', SECRET).update(`leaf.${garbage}`).digest('base64url')
+    expectSignedError(() => decodeSignedQuery(SECRET, 'leaf', garbage, s), 'malformed payload')
+  })
+})
+
+describe('matchesETag', () => {
+  const etag = '"abc123"'
+
+  it('matches exact, weak, listed and wildcard values', () => {
+    expect(matchesETag('"abc123"', etag)).toBe(true)
+    expect(matchesETag('W/"abc123"', etag)).toBe(true)
+    expect(matchesETag('"other", "abc123"', etag)).toBe(true)
+    expect(matchesETag('*', etag)).toBe(true)
+  })
+
+  it('does not match absent or different values', () => {
+    expect(matchesETag(undefined, etag)).toBe(false)
+    expect(matchesETag('', etag)).toBe(false)
+    expect(matchesETag('"abc"', etag)).toBe(false)
+    expect(matchesETag('abc123', etag)).toBe(false)
+  })
+})
+
+describe('request timeout', () => {
+  it('rejects timeouts that would disable the limit', () => {
+    expect(v.safeParse(LeafHttpRequestSchema, { ...request, timeoutMs: 0 }).success).toBe(false)
+    expect(v.safeParse(LeafHttpRequestSchema, { ...request, timeoutMs: -1 }).success).toBe(false)
+    expect(v.safeParse(LeafHttpRequestSchema, { ...request, timeoutMs: 500 }).success).toBe(true)
+  })
+
+  it('only lets clients shorten the server timeout', () => {
+    expect(clampRequestTimeout(undefined, 60_000)).toBe(60_000)
+    expect(clampRequestTimeout(500, 60_000)).toBe(500)
+    expect(clampRequestTimeout(3_600_000, 60_000)).toBe(60_000)
+    expect(clampRequestTimeout(500, 0)).toBe(500)
+  })
+})
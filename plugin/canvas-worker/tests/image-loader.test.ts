@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import fs from 'node:fs/promises'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
+
+import { DEFAULT_IMAGE_POLICY, loadImageSource, prepareImages } from '../src/image-loader.mjs'
+import type { ImagePolicy, RenderNode } from '../src/types.ts'
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64',
+)
+
+// 本地测试服务器在回环地址上，宽松策略需放开内网访问
+const permissive: ImagePolicy = { ...DEFAULT_IMAGE_POLICY, denyHosts: [], allowPrivateNetwork: true }
+
+let server: http.Server
+let baseUrl: string
+let hits = 0
+let dir: string
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    hits++
+    res.writeHead(200, { 'content-type': 'image/png', 'content-length': PNG.length })
+    res.end(PNG)
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'canvas-image-loader-'))
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe('loadImageSource policy', () => {
+  it('does not serve an image cached by a permissive job to a job denying its host', async () => {
+    const url = `${baseUrl}/avatar.png?deny`
+    const before = hits
+    const { image } = await loadImageSource(url, permissive)
+    expect(image.width).toBe(1)
+
+    const denying: ImagePolicy = { ...permissive, denyHosts: ['127.0.0.1'] }
+    await expect(loadImageSource(url, denying)).rejects.toThrow('host 127.0.0.1 is denied')
+    await expect(loadImageSource(url, DEFAULT_IMAGE_POLICY)).rejects.toThrow('Failed to load image')
+    // 同一策略仍然命中缓存
+    await loadImageSource(url, permissive)
+    expect(hits - before).toBe(1)
+  })
+
+  it('applies the byte cap of each job', async () => {
+    const url = `${baseUrl}/avatar.png?cap`
+    await loadImageSource(url, permissive)
+    await expect(loadImageSource(url, { ...permissive, maxBytes: 10 })).rejects.toThrow('exceeds 10 bytes')
+  })
+
+  it('does not serve a local file cached by a job allowing local files', async () => {
+    const file = path.join(dir, 'avatar.png')
+    await fs.writeFile(file, PNG)
+    await loadImageSource(file, { ...permissive, allowLocalFiles: true })
+    await expect(loadImageSource(file, permissive)).rejects.toThrow('local files are not allowed')
+  })
+
+  it('only resolves byte keys pinned by the same job', async () => {
+    const pinned = new Map<string, Uint8Array>()
+    const nodes: RenderNode[] = [{ type: 'image', src: new Uint8Array(PNG), width: 1, height: 1 }]
+    const [node] = await prepareImages(nodes, permissive, pinned)
+    const key = (node as { url: string }).url
+    expect((await loadImageSource(key, permissive, pinned)).key).toBe(key)
+    await expect(loadImageSource(key, permissive, new Map())).rejects.toThrow('image bytes are not part of this job')
+  })
+})
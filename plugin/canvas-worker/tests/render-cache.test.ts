@@ -0,0 +1,206 @@
+import { afterEach, describe, expect, it, setSystemTime } from 'bun:test'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { RenderCache, type RenderCacheOptions } from '../src/render-cache.ts'
+import type { WorkerRenderResult } from '../src/types.ts'
+
+function result(size: number, tag = 0): WorkerRenderResult {
+  return { buffer: new Uint8Array(size).fill(tag).buffer, durationMs: 1, meta: { width: 1, height: 1, format: 'png' } }
+}
+
+function createCache(options: Partial<RenderCacheOptions> = {}) {
+  return new RenderCache({ maxEntries: 16, maxBytes: 1024, ttlMs: 60_000, ...options })
+}
+
+/** resolve 会先查磁盘层，等它走到 render 再继续 */
+const tick = () => new Promise((done) => setTimeout(done, 0))
+
+/** 手动完成的渲染，记录收到的 signal */
+function deferredRender() {
+  let resolve!: (value: WorkerRenderResult) => void
+  const signals: (AbortSignal | undefined)[] = []
+  const render = (signal?: AbortSignal) => {
+    signals.push(signal)
+    return new Promise<WorkerRenderResult>((done, fail) => {
+      resolve = done
+      signal?.addEventListener('abort', () => fail(signal.reason), { once: true })
+    })
+  }
+  return { render, signals, resolve: (value: WorkerRenderResult) => resolve(value) }
+}
+
+describe('RenderCache shared renders', () => {
+  it('shares one render between concurrent callers', async () => {
+    const cache = createCache()
+    const { render, signals, resolve } = deferredRender()
+    const first = cache.resolve('k', undefined, render)
+    const second = cache.resolve('k', undefined, render)
+    await tick()
+    resolve(result(4, 7))
+
+    const [a, b] = await Promise.all([first, second])
+    expect(signals).toHaveLength(1)
+    expect(new Uint8Array(a.buffer)).toEqual(new Uint8Array(b.buffer))
+    // 各调用方拿到独立副本
+    expect(a.buffer).not.toBe(b.buffer)
+  })
+
+  it('lets each caller abort on its own signal without cancelling the shared render', async () => {
+    const cache = createCache()
+    const { render, signals, resolve } = deferredRender()
+    const first = new AbortController()
+    const second = new AbortController()
+    const a = cache.resolve('k', undefined, render, first.signal)
+    const b = cache.resolve('k', undefined, render, second.signal)
+    await tick()
+
+    first.abort(new Error('first gave up'))
+    await expect(a).rejects.toThrow('first gave up')
+    expect(signals[0]?.aborted).toBe(false)
+
+    resolve(result(4))
+    expect((await b).buffer.byteLength).toBe(4)
+  })
+
+  it('aborts the shared render once every caller has given up', async () => {
+    const cache = createCache()
+    const { render, signals } = deferredRender()
+    const first = new AbortController()
+    const second = new AbortController()
+    const reason = (err: Error) => err.message
+    const a = cache.resolve('k', undefined, render, first.signal).catch(reason)
+    const b = cache.resolve('k', undefined, render, second.signal).catch(reason)
+    await tick()
+
+    first.abort(new Error('first'))
+    second.abort(new Error('second'))
+    expect(await Promise.all([a, b])).toEqual(['first', 'second'])
+    expect(signals[0]?.aborted).toBe(true)
+
+    // 中止后的 key 不会残留在进行中的任务里
+    const retry = deferredRender()
+    const c = cache.resolve('k', undefined, retry.render)
+    await tick()
+    retry.resolve(result(2))
+    expect((await c).buffer.byteLength).toBe(2)
+  })
+
+  it('passes the caller signal straight through when bypassing', async () => {
+    const cache = createCache()
+    const controller = new AbortController()
+    const { render, signals, resolve } = deferredRender()
+    const pending = cache.resolve('k', 'bypass', render, controller.signal)
+    await tick()
+    resolve(result(1))
+    await pending
+    expect(signals[0]).toBe(controller.signal)
+    expect(cache.stats().entries).toBe(0)
+  })
+})
+
+/** 渲染并写入缓存，返回 render 是否被调用 */
+async function fill(cache: RenderCache, key: string, size: number) {
+  let rendered = false
+  await cache.resolve(key, undefined, async () => {
+    rendered = true
+    return result(size)
+  })
+  return rendered
+}
+
+/** 磁盘写入不阻塞 resolve，轮询等待落盘 */
+async function until(check: () => boolean) {
+  for (let i = 0; i < 100 && !check(); i++) await new Promise((done) => setTimeout(done, 5))
+  expect(check()).toBe(true)
+}
+
+function diskKeys(dir: string) {
+  if (!fs.existsSync(dir)) return []
+  return fs
+    .readdirSync(dir)
+    .flatMap((bucket) => fs.readdirSync(path.join(dir, bucket)))
+    .filter((file) => file.endsWith('.bin'))
+    .map((file) => file.slice(0, -'.bin'.length))
+    .sort()
+}
+
+describe('RenderCache eviction', () => {
+  afterEach(() => setSystemTime())
+
+  it('evicts the least recently used entry beyond maxEntries', async () => {
+    const cache = createCache({ maxEntries: 2 })
+    await fill(cache, 'a', 1)
+    await fill(cache, 'b', 1)
+    expect(await fill(cache, 'a', 1)).toBe(false)
+    await fill(cache, 'c', 1)
+
+    expect(cache.stats()).toMatchObject({ entries: 2, evictions: 1 })
+    expect(await fill(cache, 'a', 1)).toBe(false)
+    expect(await fill(cache, 'b', 1)).toBe(true)
+  })
+
+  it('evicts by total bytes and skips results larger than maxBytes', async () => {
+    const cache = createCache({ maxBytes: 10 })
+    await fill(cache, 'a', 6)
+    await fill(cache, 'b', 6)
+    expect(cache.stats()).toMatchObject({ entries: 1, bytes: 6 })
+
+    await fill(cache, 'huge', 11)
+    expect(cache.stats()).toMatchObject({ entries: 1, bytes: 6 })
+    expect(await fill(cache, 'huge', 11)).toBe(true)
+  })
+
+  it('expires entries after ttlMs', async () => {
+    const cache = createCache({ ttlMs: 1000 })
+    setSystemTime(new Date('2026-01-01T00:00:00Z'))
+    await fill(cache, 'a', 1)
+    setSystemTime(new Date('2026-01-01T00:00:00.999Z'))
+    expect(await fill(cache, 'a', 1)).toBe(false)
+    setSystemTime(new Date('2026-01-01T00:00:01Z'))
+    expect(await fill(cache, 'a', 1)).toBe(true)
+  })
+
+  it('sweeps expired entries from memory and disk without reading them', async () => {
+    const diskDir = fs.mkdtempSync(path.join(os.tmpdir(), 'render-cache-'))
+    try {
+      const cache = createCache({ ttlMs: 1000, diskDir })
+      setSystemTime(new Date('2026-01-01T00:00:00Z'))
+      await fill(cache, 'aa-old', 4)
+      await until(() => diskKeys(diskDir).length === 1)
+      setSystemTime(new Date('2026-01-01T00:00:00.500Z'))
+      await fill(cache, 'bb-new', 4)
+      await until(() => diskKeys(diskDir).length === 2)
+
+      setSystemTime(new Date('2026-01-01T00:00:01.200Z'))
+      await cache.sweep()
+      expect(cache.stats()).toMatchObject({ entries: 1, bytes: 4 })
+      expect(diskKeys(diskDir)).toEqual(['bb-new'])
+    } finally {
+      fs.rmSync(diskDir, { recursive: true, force: true })
+    }
+  })
+
+  it('trims the oldest disk entries beyond maxDiskBytes', async () => {
+    const diskDir = fs.mkdtempSync(path.join(os.tmpdir(), 'render-cache-'))
+    try {
+      const cache = createCache({ diskDir, maxDiskBytes: 10 })
+      for (const [i, key] of ['aa-1', 'bb-2', 'cc-3'].entries()) {
+        setSystemTime(new Date(Date.UTC(2026, 0, 1, 0, 0, i)))
+        await fill(cache, key, 4)
+        await until(() => diskKeys(diskDir).includes(key))
+      }
+      await until(() => diskKeys(diskDir).length === 2)
+      expect(diskKeys(diskDir)).toEqual(['bb-2', 'cc-3'])
+
+      // 重启后从目录重建索引，继续按上限淘汰
+      const restarted = createCache({ diskDir, maxDiskBytes: 10 })
+      setSystemTime(new Date(Date.UTC(2026, 0, 1, 0, 0, 10)))
+      await fill(restarted, 'dd-4', 4)
+      await until(() => diskKeys(diskDir).length === 2 && diskKeys(diskDir).includes('dd-4'))
+    } finally {
+      fs.rmSync(diskDir, { recursive: true, force: true })
+    }
+  })
+})
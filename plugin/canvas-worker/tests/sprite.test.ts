@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+
+import { MAX_SPRITE_SIZE, layoutSprite } from '../src/sprite.ts'
+import type { BatchItemResult } from '../src/types.ts'
+
+function ok(index: number, width: number, height: number): BatchItemResult {
+  return {
+    index,
+    ok: true,
+    image: { buffer: Buffer.from([1, 2, 3]), mime: 'image/png', durationMs: 0, meta: { width, height } },
+  } as BatchItemResult
+}
+
+const failed = (index: number): BatchItemResult => ({ index, ok: false, error: { name: 'Error', message: 'boom' } })
+
+describe('layoutSprite', () => {
+  it('places results in a grid and keeps cells for failed items', () => {
+    const layout = layoutSprite([ok(0, 100, 50), failed(1), ok(2, 40, 80)], { gap: 10, padding: 5 })
+    expect(layout.width).toBe(5 * 2 + 2 * 100 + 10)
+    expect(layout.height).toBe(5 * 2 + 2 * 80 + 10)
+    expect(layout.cells.map((cell) => [cell.index, cell.x, cell.y])).toEqual([
+      [0, 5, 5],
+      [1, 115, 5],
+      [2, 5, 95],
+    ])
+    expect(layout.nodes).toHaveLength(2)
+  })
+
+  it('rejects oversized grids before anything is rendered', () => {
+    const results = Array.from({ length: 4 }, (_, index) => ok(index, 9000, 100))
+    expect(() => layoutSprite(results, {})).toThrow(`exceeds ${MAX_SPRITE_SIZE}px`)
+    expect(() => layoutSprite(results, { columns: 1 })).not.toThrow()
+  })
+})
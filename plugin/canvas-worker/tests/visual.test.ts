@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'bun:test'
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { createVisualHarness, type VisualMatchResult } from '../src/testing.ts'
+import type { RenderNode } from '../src/types.ts'
+
+// 固定字体放在 tests/fonts，统一注册为同一别名，避免 golden 受系统字体影响。
+// 当前为 Noto Sans SC（OFL）Regular/Bold 按 ASCII 与用例中的汉字裁剪的子集，新增文字时需重新裁剪并更新 golden
+const FONT_DIR = path.join(import.meta.dir, 'fonts')
+const FONT_ALIAS = 'CanvasVisualTest'
+const fontFiles = fs.readdirSync(FONT_DIR).filter((file) => /\.(ttf|otf)$/i.test(file))
+
+const harness = createVisualHarness({
+  goldenDir: path.join(import.meta.dir, '__goldens__'),
+  fonts: fontFiles.map((file) => ({ type: 'file', path: path.join(FONT_DIR, file), alias: FONT_ALIAS })),
+  fontFamily: FONT_ALIAS,
+  threshold: 0.1,
+  maxDiffRatio: 0.001,
+})
+
+function expectMatch(result: VisualMatchResult) {
+  if (!result.pass) throw new Error(result.message)
+  expect(result.pass).toBe(true)
+}
+
+const card: RenderNode[] = [
+  {
+    type: 'box',
+    x: 24,
+    y: 24,
+    width: 352,
+    direction: 'column',
+    gap: 12,
+    padding: 20,
+    fill: '#f4f6fb',
+    cornerRadius: 16,
+    children: [
+      { type: 'text', text: '每日统计', fontSize: 24, fontWeight: 700, fill: '#1f2937' },
+      {
+        type: 'text',
+        text: 'A fairly long description that has to wrap inside the card body without overflowing.',
+        fontSize: 16,
+        fill: '#4b5563',
+      },
+      {
+        type: 'box',
+        direction: 'row',
+        gap: 8,
+        children: [
+          { type: 'rect', width: 80, height: 8, fill: '#6366f1', cornerRadius: 4 },
+          { type: 'rect', width: 40, height: 8, fill: '#f59e0b', cornerRadius: 4, grow: 1 },
+        ],
+      },
+    ],
+  },
+]
+
+describe('canvas-worker visual regression', () => {
+  it('renders a box layout card', async () => {
+    expectMatch(await harness.matchScene('box-card', { kind: 'nodes', nodes: card }, { width: 400, height: 240 }))
+  })
+
+  it('renders rich text with badges and ellipsis', async () => {
+    const nodes: RenderNode[] = [
+      {
+        type: 'richtext',
+        x: 16,
+        y: 16,
+        width: 368,
+        maxLines: 2,
+        spans: [
+          { text: 'Release ' },
+          { text: 'v2', background: '#dbeafe', fill: '#1d4ed8' },
+          { text: ' ships ' },
+          { text: 'underlined', decoration: 'underline' },
+          { text: ' and ' },
+          { text: 'bold', fontWeight: 700, fill: '#dc2626' },
+          { text: ' spans that keep going until the second line has to be truncated with an ellipsis.' },
+        ],
+      },
+    ]
+    expectMatch(await harness.matchScene('richtext', { kind: 'nodes', nodes }, { width: 400, height: 100 }))
+  })
+
+  it('renders an echarts bar chart', async () => {
+    const result = await harness.matchChart(
+      'echarts-bar',
+      {
+        xAxis: { type: 'category', data: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'] },
+        yAxis: { type: 'value' },
+        series: [{ type: 'bar', data: [12, 20, 15, 8, 17] }],
+      },
+      { width: 480, height: 320 },
+    )
+    expectMatch(result)
+  })
+})
@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsdown'
 
 export default defineConfig({
-	entry: ['./src/canvas-worker.ts', './src/worker.js'],
+	entry: ['./src/canvas-worker.ts', './src/jsx-runtime.ts', './src/worker.js'],
 	dts: {
 		build: true,
 		sourcemap: true,
@@ -3,22 +3,70 @@ import { v } from '@pluxel/hmr/config'
 import * as echarts from 'echarts'
 import fs from 'node:fs'
 import path from 'node:path'
+// biome-ignore lint/style/useImportType: <PluginSystem>
+import { CanvasWorker } from 'pluxel-plugin-canvas-worker'
 import FontManager from 'pluxel-plugin-font-manager'
 import { Image, createCanvas as createSkiaCanvas, loadImage as loadImageFromCanvas } from 'pluxel-plugin-napi-rs/canvas'
 
+import {
+  calendarHeatmapPreset,
+  renderGallery,
+  type PresetDefinition,
+  type PresetFactory,
+  type PresetInfo,
+} from './presets'
+
 export { echarts }
 
+const CHART_FORMATS = ['png', 'jpeg', 'webp', 'svg'] as const
+/** HTTP 请求的单边像素上限 */
+const MAX_HTTP_SIZE = 4096
+
 const CfgSchema = v.object({
   width: v.optional(v.number(), 1000),
   height: v.optional(v.number(), 700),
   themesDir: v.optional(v.string(), 'node-rs/canvas/echarts'),
   defaultTheme: v.optional(v.string(), 'light'),
-  demoRoute: v.optional(v.string(), '/echarts/demo'),
+  /** 渲染接口与预设画廊的路由，留空时不注册 */
+  route: v.optional(v.string(), '/echarts'),
+  /** 设置后才注册 `POST {route}`，请求需携带 `Authorization: Bearer <token>` */
+  token: v.optional(v.string()),
   fontKey: v.optional(v.string(), 'sans'),
+  /** CanvasWorker 可用时在其线程池中渲染，避免阻塞事件循环 */
+  useCanvasWorker: v.optional(v.boolean(), true),
 })
 
 type PluginConfig = Config<typeof CfgSchema>
 
+export type ChartFormat = (typeof CHART_FORMATS)[number]
+
+export interface ChartRenderOptions {
+  width?: number
+  height?: number
+  theme?: string
+  fontKey?: string
+  format?: ChartFormat
+}
+
+const MIME: Record<ChartFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+}
+
+const SizeSchema = v.optional(
+  v.pipe(v.string(), v.transform(Number), v.integer(), v.minValue(1), v.maxValue(MAX_HTTP_SIZE)),
+)
+
+const RenderQuerySchema = v.object({
+  w: SizeSchema,
+  h: SizeSchema,
+  theme: v.optional(v.string()),
+  fontKey: v.optional(v.string()),
+  format: v.optional(v.picklist(CHART_FORMATS)),
+})
+
 let platformReady = false
 function ensurePlatform() {
   if (platformReady) return
@@ -59,48 +107,63 @@ export class Echarts extends BasePlugin {
   @Config(CfgSchema)
   private config!: PluginConfig
 
+  private readonly presets = new Map<string, PresetDefinition>()
+  private themesLoaded = false
+  // 可选依赖：未加载 CanvasWorker 时在当前线程渲染
+  private canvasWorker?: CanvasWorker
+
   constructor(private readonly fontManager: FontManager) {
     super()
   }
 
   override async init(_abort: AbortSignal): Promise<void> {
-    ensurePlatform()
-    this.registerThemes()
-    this.registerDemoRoute()
-    this.ctx.logger.info('Echarts initialized')
+    this.registerPreset('calendar-heatmap', calendarHeatmapPreset)
+    this.registerRoutes()
+    this.ctx.logger.info(`Echarts initialized (${this.useCanvasWorker() ? 'CanvasWorker' : 'in-process'} rendering)`)
   }
 
   override async stop(_abort: AbortSignal): Promise<void> {
     this.ctx.logger.info('Echarts stopped')
   }
 
-  async createChart(
-    options: echarts.EChartsOption,
-    overrides?: { width?: number; height?: number; theme?: string; fontKey?: string },
-  ) {
-    ensurePlatform()
-    const width = overrides?.width ?? this.config.width
-    const height = overrides?.height ?? this.config.height
-    const theme = overrides?.theme ?? this.config.defaultTheme
-    const fontKey = overrides?.fontKey ?? this.config.fontKey ?? 'sans'
-    const fontFamily = this.fontManager.getFontFamilyString(fontKey)
-
-    const canvas = createSkiaCanvas(width, height)
+  /**
+   * 注册命名预设，供 `GET {route}/:preset` 渲染；随调用方插件卸载自动注销。同名预设后注册者覆盖。
+   */
+  registerPreset(name: string, preset: PresetFactory | PresetDefinition): () => void {
+    const definition: PresetDefinition = typeof preset === 'function' ? { create: preset } : preset
+    if (this.presets.has(name)) {
+      this.ctx.logger.warn(`[echarts] preset "${name}" overridden`)
+    }
+    this.presets.set(name, definition)
 
-    // Keep animation off by default for server-side rendering
-    const appliedOptions: echarts.EChartsOption = { animation: false, ...options }
-    appliedOptions.textStyle = {
-      fontFamily,
-      fontSize: 16,
-      ...(appliedOptions.textStyle ?? {}),
+    const dispose = () => {
+      if (this.presets.get(name) === definition) this.presets.delete(name)
     }
+    const scope = this.ctx.caller?.scope ?? this.ctx.scope
+    scope.collectEffect(dispose)
+    return dispose
+  }
+
+  listPresets(): PresetInfo[] {
+    return Array.from(this.presets, ([name, preset]) => ({
+      name,
+      title: preset.title,
+      description: preset.description,
+    }))
+  }
+
+  /** 返回可继续操作的 chart 实例，因此总是在当前线程渲染 */
+  async createChart(options: echarts.EChartsOption, overrides?: Omit<ChartRenderOptions, 'format'>) {
+    this.ensureInProcess()
+    const { width, height, theme } = this.resolveSize(overrides)
+    const canvas = createSkiaCanvas(width, height)
 
     const chart = echarts.init(canvas as any, theme, {
       renderer: 'canvas',
       width,
       height,
     })
-    chart.setOption(appliedOptions)
+    chart.setOption(this.applyDefaults(options, overrides?.fontKey))
 
     return {
       canvas,
@@ -109,18 +172,49 @@ export class Echarts extends BasePlugin {
     }
   }
 
-  async createChartPNG(
+  /**
+   * 按 format 输出图片。CanvasWorker 可用时交给其 renderEchartsOption，尺寸、主题、字体与主题目录
+   * 都在这里解析后显式传入，保证与当前线程渲染的结果一致；svg 使用 echarts 的 SSR 渲染。
+   */
+  async renderChart(
     options: echarts.EChartsOption,
-    overrides?: { width?: number; height?: number; theme?: string; fontFamily?: string; fontKey?: string },
-  ): Promise<Buffer> {
+    overrides: ChartRenderOptions = {},
+  ): Promise<{ buffer: Buffer; mime: string }> {
+    const format = overrides.format ?? 'png'
+    if (this.canvasWorker && this.useCanvasWorker()) {
+      const { width, height, theme } = this.resolveSize(overrides)
+      const raw = await this.canvasWorker.renderEchartsOption(options, {
+        width,
+        height,
+        theme,
+        fontFamily: this.resolveFontFamily(overrides.fontKey),
+        fontKey: overrides.fontKey ?? this.config.fontKey,
+        themesDir: this.themesDir(),
+        format,
+      })
+      return { buffer: Buffer.from(raw.buffer), mime: MIME[format] }
+    }
+
+    this.ensureInProcess()
+    if (format === 'svg') {
+      const { width, height, theme } = this.resolveSize(overrides)
+      const chart = echarts.init(null, theme, { renderer: 'svg', ssr: true, width, height })
+      try {
+        chart.setOption(this.applyDefaults(options, overrides.fontKey))
+        return { buffer: Buffer.from(chart.renderToSVGString(), 'utf8'), mime: MIME.svg }
+      } finally {
+        chart.dispose()
+      }
+    }
+
     const { canvas, dispose } = await this.createChart(options, overrides)
     try {
-      if (typeof (canvas as any).toBuffer === 'function') {
-        return (canvas as any).toBuffer('image/png') as Buffer
-      }
       if (typeof (canvas as any).encode === 'function') {
-        const encoded = await (canvas as any).encode('png')
-        return Buffer.isBuffer(encoded) ? encoded : Buffer.from(encoded)
+        const encoded = await (canvas as any).encode(format)
+        return { buffer: Buffer.isBuffer(encoded) ? encoded : Buffer.from(encoded), mime: MIME[format] }
+      }
+      if (typeof (canvas as any).toBuffer === 'function') {
+        return { buffer: (canvas as any).toBuffer(MIME[format]) as Buffer, mime: MIME[format] }
       }
       throw new Error('Canvas backend does not support toBuffer/encode')
     } finally {
@@ -128,10 +222,59 @@ export class Echarts extends BasePlugin {
     }
   }
 
-  private registerThemes() {
+  async createChartPNG(
+    options: echarts.EChartsOption,
+    overrides?: { width?: number; height?: number; theme?: string; fontFamily?: string; fontKey?: string },
+  ): Promise<Buffer> {
+    const { buffer } = await this.renderChart(options, { ...overrides, format: 'png' })
+    return buffer
+  }
+
+  private resolveSize(overrides?: ChartRenderOptions) {
+    return {
+      width: overrides?.width ?? this.config.width,
+      height: overrides?.height ?? this.config.height,
+      theme: overrides?.theme ?? this.config.defaultTheme,
+    }
+  }
+
+  private useCanvasWorker() {
+    return Boolean(this.canvasWorker) && (this.config.useCanvasWorker ?? true)
+  }
+
+  /** 当前线程渲染所需的 platform API 与主题，首次使用时才初始化 */
+  private ensureInProcess() {
+    ensurePlatform()
+    if (this.themesLoaded) return
+    this.registerThemes()
+    this.themesLoaded = true
+  }
+
+  private resolveFontFamily(fontKey?: string) {
+    return this.fontManager.getFontFamilyString(fontKey ?? this.config.fontKey ?? 'sans')
+  }
+
+  /** 两条渲染路径共用的主题目录，CanvasWorker 的 worker 从同一目录注册主题 */
+  private themesDir() {
     const themesDir = path.resolve(process.cwd(), this.config.themesDir)
     fs.mkdirSync(themesDir, { recursive: true })
+    return themesDir
+  }
 
+  private applyDefaults(options: echarts.EChartsOption, fontKey?: string): echarts.EChartsOption {
+    const fontFamily = this.resolveFontFamily(fontKey)
+    // Keep animation off by default for server-side rendering
+    const appliedOptions: echarts.EChartsOption = { animation: false, ...options }
+    appliedOptions.textStyle = {
+      fontFamily,
+      fontSize: 16,
+      ...(appliedOptions.textStyle ?? {}),
+    }
+    return appliedOptions
+  }
+
+  private registerThemes() {
+    const themesDir = this.themesDir()
     const files = fs.readdirSync(themesDir)
     for (const file of files) {
       if (!file.endsWith('.json')) continue
@@ -147,68 +290,104 @@ export class Echarts extends BasePlugin {
     }
   }
 
-  private registerDemoRoute() {
-    if (!this.config.demoRoute) return
-    const route = this.config.demoRoute
+  /**
+   * `POST {route}`：请求体为 EChartsOption，仅在配置 token 时注册；`GET {route}/:preset`：渲染命名预设，
+   * 其余 query 作为预设参数；`GET {route}`：预设画廊。两者都接受 w/h/theme/fontKey/format。
+   */
+  private registerRoutes() {
+    if (!this.config.route) return
+    const route = this.config.route.replace(/\/+$/, '')
 
     this.ctx.honoService.modifyApp((app) => {
-      app.get(route, async (c) => {
-        this.ctx.logger.info(`[echarts] GET ${route}`)
-
-        const width = Number(c.req.query('w')) || this.config.width
-        const height = Number(c.req.query('h')) || this.config.height
-        const theme = c.req.query('theme') || this.config.defaultTheme
-
-        console.time("echarts")
-        const buffer = await this.createChartPNG({
-  title: {
-    top: 30,
-    left: 'center',
-    text: 'Daily Step Count'
-  },
-  tooltip: {},
-  visualMap: {
-    min: 0,
-    max: 10000,
-    type: 'piecewise',
-    orient: 'horizontal',
-    left: 'center',
-    top: 65
-  },
-  calendar: {
-    top: 120,
-    left: 30,
-    right: 30,
-    cellSize: ['auto', 13],
-    range: '2016',
-    itemStyle: {
-      borderWidth: 0.5
-    },
-    yearLabel: { show: false }
-  },
-  series: {
-    type: 'heatmap',
-    coordinateSystem: 'calendar',
-    data: getVirtualData('2016')
-  }
-}
-        )
-console.timeEnd("echarts")
-        return c.body(buffer as any, 200, { 'content-type': 'image/png' })
+      app.get(route, (c) => c.html(renderGallery(route, this.listPresets())))
+
+      const token = this.config.token
+      if (!token) {
+        this.ctx.logger.info(`[echarts] POST ${route} disabled: no token configured`)
+      } else {
+        app.post(route, async (c) => {
+          if (c.req.header('authorization') !== `Bearer ${token}`) {
+            return c.json({ error: 'unauthorized' }, 401)
+          }
+          const query = v.safeParse(RenderQuerySchema, c.req.query())
+          if (!query.success) return c.json({ error: 'invalid query', issues: v.flatten(query.issues) }, 400)
+          let option: unknown
+          try {
+            option = await c.req.json()
+          } catch {
+            return c.json({ error: 'invalid JSON body' }, 400)
+          }
+          if (!option || typeof option !== 'object' || Array.isArray(option)) {
+            return c.json({ error: 'body must be an EChartsOption object' }, 400)
+          }
+          const image = findNonDataImage(option)
+          if (image !== undefined) {
+            return c.json({ error: 'only data: URLs are allowed as image sources', image: image.slice(0, 200) }, 400)
+          }
+          return this.respondChart(option as echarts.EChartsOption, toRenderOptions(query.output))
+        })
+      }
+
+      app.get(`${route}/:preset`, async (c) => {
+        const name = c.req.param('preset')
+        const preset = this.presets.get(name)
+        if (!preset) return c.json({ error: `preset not found: ${name}` }, 404)
+        const { w, h, theme, fontKey, format, ...params } = c.req.query()
+        const query = v.safeParse(RenderQuerySchema, { w, h, theme, fontKey, format })
+        if (!query.success) return c.json({ error: 'invalid query', issues: v.flatten(query.issues) }, 400)
+        let option: echarts.EChartsOption
+        try {
+          option = await preset.create(params)
+        } catch (err) {
+          return c.json({ error: err instanceof Error ? err.message : String(err) }, 400)
+        }
+        const { create: _create, title: _title, description: _description, ...defaults } = preset
+        return this.respondChart(option, { ...defaults, ...toRenderOptions(query.output) })
       })
     })
   }
+
+  private async respondChart(option: echarts.EChartsOption, options: ChartRenderOptions): Promise<Response> {
+    try {
+      const { buffer, mime } = await this.renderChart(option, options)
+      return new Response(buffer, {
+        status: 200,
+        headers: { 'Content-Type': mime, 'Content-Length': String(buffer.byteLength) },
+      })
+    } catch (err) {
+      this.ctx.logger.warn(err, '[echarts] render failed')
+      return Response.json({ error: 'render failed' }, { status: 500 })
+    }
+  }
 }
-function getVirtualData(year: string) {
-  const date = +echarts.time.parse(year + '-01-01');
-  const end = +echarts.time.parse(+year + 1 + '-01-01');
-  const dayTime = 3600 * 24 * 1000;
-  const data = [];
-  for (let time = date; time < end; time += dayTime) {
-    data.push([
-      echarts.time.format(time, '{yyyy}-{MM}-{dd}', false),
-      Math.floor(Math.random() * 10000)
-    ]);
-  }
-  return data;
-}
\ No newline at end of file
+
+/**
+ * 找出 option 中第一个不是 data: URL 的图片来源（`image` 字段或 `image://` 前缀的 symbol/icon），
+ * 外部提交的 option 只允许内联图片，避免 loadImage 读取本地文件或访问内网地址。
+ */
+function findNonDataImage(value: unknown, key?: string): string | undefined {
+  if (typeof value === 'string') {
+    const src = value.trim()
+    if (/^image:\/\//i.test(src)) return /^image:\/\/data:/i.test(src) ? undefined : src
+    if (key === 'image' && !/^data:/i.test(src)) return src
+    return undefined
+  }
+  if (!value || typeof value !== 'object') return undefined
+  for (const [name, item] of Object.entries(value)) {
+    const found = findNonDataImage(item, Array.isArray(value) ? key : name)
+    if (found !== undefined) return found
+  }
+  return undefined
+}
+
+function toRenderOptions(query: v.InferOutput<typeof RenderQuerySchema>): ChartRenderOptions {
+  const options: ChartRenderOptions = {}
+  if (query.w !== undefined) options.width = query.w
+  if (query.h !== undefined) options.height = query.h
+  if (query.theme) options.theme = query.theme
+  if (query.fontKey) options.fontKey = query.fontKey
+  if (query.format) options.format = query.format
+  return options
+}
+
+export type { PresetDefinition, PresetFactory, PresetInfo, PresetParams } from './presets'
@@ -0,0 +1,103 @@
+import * as echarts from 'echarts'
+
+export type PresetParams = Record<string, string>
+
+export type PresetFactory = (params: PresetParams) => echarts.EChartsOption | Promise<echarts.EChartsOption>
+
+/** 预设的默认渲染参数，请求中的 w/h/theme 等会覆盖这些值 */
+export interface PresetDefinition {
+  create: PresetFactory
+  title?: string
+  description?: string
+  width?: number
+  height?: number
+  theme?: string
+}
+
+export interface PresetInfo {
+  name: string
+  title?: string
+  description?: string
+}
+
+/** 固定种子的伪随机数，保证同一参数下示例图稳定 */
+function seeded(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0
+    return state / 2 ** 32
+  }
+}
+
+function calendarData(year: number) {
+  const random = seeded(year)
+  const start = +echarts.time.parse(`${year}-01-01`)
+  const end = +echarts.time.parse(`${year + 1}-01-01`)
+  const day = 24 * 60 * 60 * 1000
+  const data: [string, number][] = []
+  for (let time = start; time < end; time += day) {
+    data.push([echarts.time.format(time, '{yyyy}-{MM}-{dd}', false), Math.floor(random() * 10000)])
+  }
+  return data
+}
+
+/** 内置示例：日历热力图，`?year=` 指定年份 */
+export const calendarHeatmapPreset: PresetDefinition = {
+  title: 'Daily Step Count',
+  description: '日历热力图示例，参数 year 指定年份',
+  height: 300,
+  create(params) {
+    const year = Number(params.year) || 2016
+    return {
+      title: { top: 30, left: 'center', text: 'Daily Step Count' },
+      tooltip: {},
+      visualMap: { min: 0, max: 10000, type: 'piecewise', orient: 'horizontal', left: 'center', top: 65 },
+      calendar: {
+        top: 120,
+        left: 30,
+        right: 30,
+        cellSize: ['auto', 13],
+        range: String(year),
+        itemStyle: { borderWidth: 0.5 },
+        yearLabel: { show: false },
+      },
+      series: { type: 'heatmap', coordinateSystem: 'calendar', data: calendarData(year) },
+    }
+  },
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`)
+}
+
+/** 预设画廊页面，逐个展示 `GET {route}/:preset` 的渲染结果 */
+export function renderGallery(route: string, presets: PresetInfo[]) {
+  const items = presets
+    .map((preset) => {
+      const href = `${route}/${encodeURIComponent(preset.name)}`
+      const title = escapeHtml(preset.title ?? preset.name)
+      const description = preset.description ? `<p>${escapeHtml(preset.description)}</p>` : ''
+      return `<figure><a href="${href}"><img src="${href}" alt="${title}" loading="lazy"></a><figcaption><strong>${title}</strong> <code>${escapeHtml(preset.name)}</code>${description}</figcaption></figure>`
+    })
+    .join('\n')
+  return `<!doctype html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>ECharts presets</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 24px; background: #f6f7f9; }
+main { display: grid; grid-template-columns: repeat(auto-fill, minmax(420px, 1fr)); gap: 16px; }
+figure { margin: 0; padding: 12px; background: #fff; border-radius: 8px; box-shadow: 0 1px 3px rgba(0,0,0,.08); }
+img { width: 100%; height: auto; display: block; }
+p { margin: 4px 0 0; color: #666; font-size: 14px; }
+</style>
+</head>
+<body>
+<h1>ECharts presets</h1>
+<main>
+${items || '<p>暂无预设</p>'}
+</main>
+</body>
+</html>`
+}
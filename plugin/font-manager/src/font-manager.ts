@@ -53,6 +53,22 @@ type FontPreference = {
   updatedAt: number
 }
 
+type FontUserSource = {
+  id: string
+  type: FontSourceType
+  path: string
+  alias?: string
+  addedAt: number
+}
+
+export type FontChangeEvent = {
+  action: FontActivity['action'] | 'preferences'
+  detail: string
+  at: number
+}
+
+export type FontChangeListener = (event: FontChangeEvent) => void
+
 export type FontSnapshot = {
   stack: string[]
   primary: string
@@ -79,6 +95,8 @@ export class FontManager extends BasePlugin {
 
   private activity!: Collection<FontActivity, string, FontActivity>
   private preferences!: Collection<FontPreference, string, FontPreference>
+  private userSources!: Collection<FontUserSource, string, FontUserSource>
+  private listeners = new Set<FontChangeListener>()
   private activitySeq = 1
   private preferencesMap = new Map<string, string[]>()
   private lastLoads: FontLoadResult[] = []
@@ -96,6 +114,7 @@ export class FontManager extends BasePlugin {
   }
 
   override async stop(): Promise<void> {
+    this.listeners.clear()
     this.ctx.logger.info('[FontManager] stopped')
   }
 
@@ -135,13 +154,65 @@ export class FontManager extends BasePlugin {
       results.push(this.loadDir(dir, 'config', loadedPaths, now))
     }
 
+    for (const source of await this.userSources.find()) {
+      results.push(this.loadUserSource(source, loadedPaths, now))
+    }
+
     this.lastLoads = results
     this.lastLoadedAt = now
     await this.recordActivity({ action: 'reload', detail: `Reloaded fonts (${reason})`, at: now })
+    this.emitChange({ action: 'reload', detail: reason, at: now })
 
     return this.buildSnapshot()
   }
 
+  /**
+   * 订阅字体变更（重载、增删字体源、偏好修改）。返回取消订阅函数。
+   */
+  onFontsChanged(listener: FontChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  async addFontSource(input: { path: string; type?: FontSourceType; alias?: string }): Promise<FontLoadResult> {
+    const absPath = this.normalizePath(input.path)
+    const type = input.type ?? (fs.existsSync(absPath) && fs.statSync(absPath).isDirectory() ? 'dir' : 'file')
+    const id = `user:${type}:${absPath}`
+    const now = Date.now()
+    const source: FontUserSource = { id, type, path: absPath, alias: input.alias?.trim() || undefined, addedAt: now }
+
+    if (this.userSources.findOne({ id })) {
+      this.userSources.updateOne({ id }, { $set: { alias: source.alias, addedAt: now } })
+    } else {
+      await this.userSources.insert(source)
+    }
+
+    const result = this.loadUserSource(source, new Set(), now)
+    this.lastLoads = [...this.lastLoads.filter((item) => item.id !== id), result]
+    this.lastLoadedAt = now
+    await this.recordActivity({ action: 'add', detail: `Added font source ${absPath}`, at: now })
+    this.emitChange({ action: 'add', detail: absPath, at: now })
+    return result
+  }
+
+  /**
+   * 移除用户字体源。已注册到 GlobalFonts 的字体无法按路径卸载，仅从后续快照与 bootstrap 中剔除。
+   */
+  async removeFontSource(id: string): Promise<boolean> {
+    const existing = this.userSources.findOne({ id })
+    if (!existing) return false
+    await this.userSources.removeOne({ id })
+
+    const now = Date.now()
+    this.lastLoads = this.lastLoads.filter((item) => item.id !== id)
+    this.lastLoadedAt = now
+    await this.recordActivity({ action: 'remove', detail: `Removed font source ${existing.path}`, at: now })
+    this.emitChange({ action: 'remove', detail: existing.path, at: now })
+    return true
+  }
+
   getFontStack(key = 'sans', extra: string[] = []): string[] {
     const category = this.resolveAlias(key)
     const prefs = this.preferencesMap.get(category) ?? []
@@ -221,6 +292,10 @@ export class FontManager extends BasePlugin {
       name: 'font-preferences',
       persistence: await this.ctx.pluginData.persistenceForCollection<FontPreference>('font-preferences'),
     })
+    this.userSources = new Collection<FontUserSource, string, FontUserSource>({
+      name: 'font-sources',
+      persistence: await this.ctx.pluginData.persistenceForCollection<FontUserSource>('font-sources'),
+    })
 
     const [activityDocs, preferenceDocs] = await Promise.all([
       this.activity.find(),
@@ -348,6 +423,12 @@ export class FontManager extends BasePlugin {
     }
   }
 
+  private loadUserSource(source: FontUserSource, loadedPaths: Set<string>, now: number): FontLoadResult {
+    return source.type === 'dir'
+      ? this.loadDir(source.path, 'user', loadedPaths, now, source.alias)
+      : this.loadFile(source.path, source.alias, 'user', loadedPaths, now)
+  }
+
   private loadFile(
     filePath: string,
     alias: string | undefined,
@@ -434,6 +515,7 @@ export class FontManager extends BasePlugin {
         await this.preferences.insert({ id: normalizedKey, families: list, updatedAt: Date.now() })
       }
     }
+    this.emitChange({ action: 'preferences', detail: normalizedKey, at: Date.now() })
     return { key: normalizedKey, families: list }
   }
 
@@ -472,6 +554,16 @@ export class FontManager extends BasePlugin {
     return path.isAbsolute(target) ? path.normalize(target) : path.resolve(root, target)
   }
 
+  private emitChange(event: FontChangeEvent) {
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (err) {
+        this.ctx.logger.warn(err, '[FontManager] change listener failed')
+      }
+    }
+  }
+
   private async recordActivity(entry: Omit<FontActivity, 'id'>) {
     const activity: FontActivity = {
       id: String(this.activitySeq++),
@@ -520,6 +612,14 @@ export class FontManagerRpc extends RpcTarget {
   resolved(keys?: string[]) {
     return this.plugin.getResolvedStacks(keys)
   }
+
+  addSource(path: string, type?: FontSourceType, alias?: string) {
+    return this.plugin.addFontSource({ path, type, alias })
+  }
+
+  removeSource(id: string) {
+    return this.plugin.removeFontSource(id)
+  }
 }
 
 export default FontManager
@@ -0,0 +1,329 @@
+import type { Image as MemeImage, MemeInfo, MemeOption, OptionValue } from 'pluxel-plugin-napi-rs/meme-generator'
+
+import { validateMemeOptions } from './options'
+import type { MemeOptionInput, MemeRenderPayload } from './types'
+
+/** 命令中的图片引用，由调用方（聊天适配层）解析为实际图片 */
+export type MemeImageRef =
+	| { type: 'mention'; id: string }
+	| { type: 'url'; url: string }
+	| { type: 'attachment'; index: number }
+	| { type: 'self' }
+
+export interface MemeCommandContext {
+	/** 按该 scope 的启用名单与别名匹配 */
+	scope?: string
+	/** 消息附带的图片，`#1` 引用第一张；未被引用的附件按顺序追加 */
+	attachments?: MemeImage[]
+	/** 解析 mention/url/self；返回 null 表示无法获取 */
+	resolveImage?: (ref: MemeImageRef) => Promise<MemeImage | null> | MemeImage | null
+	/** 图片恰好少一张时用发送者头像（self）补在最前，默认 true */
+	useSelfImage?: boolean
+}
+
+export type MemeCommandFailureReason =
+	| 'no-match'
+	| 'ambiguous'
+	| 'missing'
+	| 'too-many'
+	| 'invalid-option'
+	| 'image-unavailable'
+
+export type MemeCommandParseResult =
+	| { ok: true; payload: MemeRenderPayload; info: MemeInfo; shortcut?: string }
+	| {
+			ok: false
+			reason: MemeCommandFailureReason
+			message: string
+			key?: string
+			/** reason 为 ambiguous 时的候选 key */
+			matches?: string[]
+			/** reason 为 missing 时还缺少的数量 */
+			missing?: { images: number; texts: number }
+			/** reason 为 image-unavailable 时未能解析的引用 */
+			unresolved?: MemeImageRef[]
+	  }
+
+type CompiledShortcut = { info: MemeInfo; pattern: RegExp; source: MemeInfo['shortcuts'][number] }
+
+export interface MemeCommandIndex {
+	keys: Map<string, MemeInfo>
+	keywords: Map<string, MemeInfo[]>
+	shortcuts: CompiledShortcut[]
+}
+
+/** 可见性与别名，由 MemeWorker 的策略层提供 */
+export interface MemeCommandFilter {
+	isAllowed: (key: string) => boolean
+	aliases: Record<string, string>
+}
+
+type Token = { text: string; quoted: boolean }
+
+const QUOTES: Record<string, string> = { '"': '"', "'": "'", '“': '”', '‘': '’' }
+const URL_PATTERN = /^https?:\/\/\S+$/i
+const ATTACHMENT_PATTERN = /^#(\d+)$/
+
+/** 快捷指令使用 Rust regex 语法，命名分组需从 `(?P<name>` 转换为 JS 的 `(?<name>` */
+function compileShortcut(pattern: string): RegExp | null {
+	try {
+		return new RegExp(`^(?:${pattern.replaceAll('(?P<', '(?<')})(?=\\s|$)`, 'u')
+	} catch {
+		return null
+	}
+}
+
+export function createCommandIndex(infos: MemeInfo[]): MemeCommandIndex {
+	const keys = new Map<string, MemeInfo>()
+	const keywords = new Map<string, MemeInfo[]>()
+	const shortcuts: CompiledShortcut[] = []
+	for (const info of infos) {
+		keys.set(info.key, info)
+		for (const keyword of new Set([info.key, ...info.keywords])) {
+			const list = keywords.get(keyword) ?? []
+			list.push(info)
+			keywords.set(keyword, list)
+		}
+		for (const source of info.shortcuts) {
+			const pattern = compileShortcut(source.pattern)
+			if (pattern) shortcuts.push({ info, pattern, source })
+		}
+	}
+	return { keys, keywords, shortcuts }
+}
+
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = []
+	let index = 0
+	while (index < input.length) {
+		while (index < input.length && /\s/u.test(input[index])) index++
+		if (index >= input.length) break
+		const close = QUOTES[input[index]]
+		if (close) {
+			const end = input.indexOf(close, index + 1)
+			if (end > index) {
+				tokens.push({ text: input.slice(index + 1, end), quoted: true })
+				index = end + 1
+				continue
+			}
+		}
+		const start = index
+		while (index < input.length && !/\s/u.test(input[index])) index++
+		tokens.push({ text: input.slice(start, index), quoted: false })
+	}
+	return tokens
+}
+
+function optionInput(value: OptionValue): MemeOptionInput {
+	return value.field0
+}
+
+/** 根据 ParserFlags 生成可用的 `--long` / `-s` 形式 */
+function optionFlags(option: MemeOption): string[] {
+	const { name, parserFlags } = option.field0
+	return [
+		...(parserFlags.long ? [`--${name}`] : []),
+		...parserFlags.longAliases.map((alias) => `--${alias}`),
+		...(parserFlags.short ? [`-${name[0]}`] : []),
+		...parserFlags.shortAliases.map((alias) => `-${alias}`),
+	]
+}
+
+/** 匹配命令开头：快捷指令优先，其次为最长的关键词/key 前缀 */
+function matchHead(
+	index: MemeCommandIndex,
+	input: string,
+	filter: MemeCommandFilter | undefined,
+):
+	| { kind: 'shortcut'; shortcut: CompiledShortcut; match: RegExpExecArray; rest: string }
+	| { kind: 'keyword'; infos: MemeInfo[]; keyword: string; rest: string }
+	| null {
+	const allowed = (info: MemeInfo) => !filter || filter.isAllowed(info.key)
+	for (const shortcut of index.shortcuts) {
+		if (!allowed(shortcut.info)) continue
+		const match = shortcut.pattern.exec(input)
+		if (match) return { kind: 'shortcut', shortcut, match, rest: input.slice(match[0].length) }
+	}
+
+	// 别名优先于同名关键词
+	const candidates = new Map<string, MemeInfo[]>()
+	for (const [keyword, infos] of index.keywords) {
+		const visible = infos.filter(allowed)
+		if (visible.length) candidates.set(keyword, visible)
+	}
+	for (const [alias, key] of Object.entries(filter?.aliases ?? {})) {
+		const info = index.keys.get(key)
+		if (info && allowed(info)) candidates.set(alias, [info])
+	}
+
+	let best: { infos: MemeInfo[]; keyword: string } | null = null
+	for (const [keyword, infos] of candidates) {
+		if (!input.startsWith(keyword)) continue
+		const next = input[keyword.length]
+		// 允许 `摸摸@某人` 这类关键词后紧跟引用的写法
+		if (next !== undefined && !/[\s@#]/u.test(next)) continue
+		if (!best || keyword.length > best.keyword.length) best = { infos, keyword }
+	}
+	return best ? { kind: 'keyword', ...best, rest: input.slice(best.keyword.length) } : null
+}
+
+/**
+ * 解析形如 `摸摸 @someone --circle 文本` 的命令，返回可直接交给 generate 的 payload，
+ * 或说明缺少什么的结构化错误。
+ */
+export async function parseMemeCommand(
+	index: MemeCommandIndex,
+	input: string,
+	context: MemeCommandContext = {},
+	filter?: MemeCommandFilter,
+): Promise<MemeCommandParseResult> {
+	const normalized = input.trim()
+	const head = matchHead(index, normalized, filter)
+	if (!head) {
+		return { ok: false, reason: 'no-match', message: `没有匹配的表情：${normalized.split(/\s/u)[0] ?? ''}` }
+	}
+	if (head.kind === 'keyword' && head.infos.length > 1) {
+		const matches = head.infos.map((info) => info.key)
+		return {
+			ok: false,
+			reason: 'ambiguous',
+			matches,
+			message: `关键词 ${head.keyword} 对应多个表情：${matches.join('、')}`,
+		}
+	}
+
+	const info = head.kind === 'shortcut' ? head.shortcut.info : head.infos[0]
+	const { params } = info
+	const texts: string[] = []
+	const refs: MemeImageRef[] = []
+	const imageNames: string[] = []
+	const options: Record<string, MemeOptionInput> = {}
+
+	if (head.kind === 'shortcut') {
+		const groups = head.match.groups ?? {}
+		const fill = (template: string) => template.replace(/\{(\w+)\}/gu, (_, name: string) => groups[name] ?? '')
+		texts.push(...head.shortcut.source.texts.map(fill))
+		imageNames.push(...head.shortcut.source.names.map(fill))
+		for (const [name, value] of Object.entries(head.shortcut.source.options)) {
+			options[name] = optionInput(value)
+		}
+	}
+
+	const flags = new Map<string, MemeOption>()
+	for (const option of params.options) {
+		for (const flag of optionFlags(option)) flags.set(flag, option)
+	}
+
+	const tokens = tokenize(head.rest)
+	let optionsEnded = false
+	for (let i = 0; i < tokens.length; i++) {
+		const { text, quoted } = tokens[i]
+		if (quoted || optionsEnded) {
+			texts.push(text)
+			continue
+		}
+		if (text === '--') {
+			optionsEnded = true
+			continue
+		}
+		// 只有声明过的选项才按选项解析，`-_-`、`-hello` 之类按普通文字处理
+		const eq = text.startsWith('-') ? text.indexOf('=') : -1
+		const flag = eq > 0 ? text.slice(0, eq) : text
+		const option = flags.get(flag)
+		if (option) {
+			const { name } = option.field0
+			if (eq > 0) {
+				options[name] = text.slice(eq + 1)
+			} else if (option.type === 'Boolean') {
+				options[name] = true
+			} else if (i + 1 < tokens.length) {
+				options[name] = tokens[++i].text
+			} else {
+				return { ok: false, reason: 'invalid-option', key: info.key, message: `选项 ${flag} 缺少取值` }
+			}
+			continue
+		}
+		if (text.length > 1 && text.startsWith('@')) {
+			refs.push({ type: 'mention', id: text.slice(1) })
+			continue
+		}
+		if (URL_PATTERN.test(text)) {
+			refs.push({ type: 'url', url: text })
+			continue
+		}
+		const attachment = ATTACHMENT_PATTERN.exec(text)
+		if (attachment) {
+			refs.push({ type: 'attachment', index: Number(attachment[1]) - 1 })
+			continue
+		}
+		texts.push(text)
+	}
+
+	const attachments = context.attachments ?? []
+	const referenced = new Set(refs.flatMap((ref) => (ref.type === 'attachment' ? [ref.index] : [])))
+	attachments.forEach((_, i) => {
+		if (!referenced.has(i)) refs.push({ type: 'attachment', index: i })
+	})
+	if ((context.useSelfImage ?? true) && refs.length + 1 === params.minImages) {
+		refs.unshift({ type: 'self' })
+	}
+	if (!texts.length && params.defaultTexts.length) texts.push(...params.defaultTexts)
+
+	const missingImages = Math.max(0, params.minImages - refs.length)
+	const missingTexts = Math.max(0, params.minTexts - texts.length)
+	if (missingImages || missingTexts) {
+		const parts = [
+			...(missingImages ? [`${missingImages} 张图片`] : []),
+			...(missingTexts ? [`${missingTexts} 段文字`] : []),
+		]
+		return {
+			ok: false,
+			reason: 'missing',
+			key: info.key,
+			missing: { images: missingImages, texts: missingTexts },
+			message: `表情 ${info.key} 还缺少 ${parts.join('和')}`,
+		}
+	}
+	if (refs.length > params.maxImages || texts.length > params.maxTexts) {
+		return {
+			ok: false,
+			reason: 'too-many',
+			key: info.key,
+			message: `表情 ${info.key} 最多支持 ${params.maxImages} 张图片、${params.maxTexts} 段文字，实际提供了 ${refs.length} 张、${texts.length} 段`,
+		}
+	}
+
+	const validated = validateMemeOptions(info, options)
+	if (!validated.ok) {
+		return { ok: false, reason: 'invalid-option', key: info.key, message: validated.message }
+	}
+
+	const images: MemeImage[] = []
+	const unresolved: MemeImageRef[] = []
+	for (const ref of refs) {
+		const image =
+			ref.type === 'attachment' ? (attachments[ref.index] ?? null) : ((await context.resolveImage?.(ref)) ?? null)
+		if (image) images.push(image)
+		else unresolved.push(ref)
+	}
+	if (unresolved.length) {
+		return {
+			ok: false,
+			reason: 'image-unavailable',
+			key: info.key,
+			unresolved,
+			message: `无法获取 ${unresolved.length} 张图片`,
+		}
+	}
+	// 快捷指令给出的名字覆盖对应位置的图片名（部分表情会把名字画进图里）
+	imageNames.forEach((name, i) => {
+		if (images[i] && name) images[i] = { ...images[i], name }
+	})
+
+	return {
+		ok: true,
+		info,
+		shortcut: head.kind === 'shortcut' ? head.shortcut.source.pattern : undefined,
+		payload: { key: info.key, images, texts, options },
+	}
+}
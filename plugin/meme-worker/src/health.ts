@@ -0,0 +1,69 @@
+import type { MemeHealthIssue, MemeHealthSnapshot } from './types'
+
+type Listener = (snapshot: MemeHealthSnapshot) => void
+
+/**
+ * 记录各表情的资源检查结果。首次全量检查完成前状态为 downloading，
+ * 之后按是否存在损坏的 key 切换 ready/degraded；重新检查通过的 key 会恢复可用。
+ */
+export class MemeHealth {
+	private readonly broken = new Map<string, MemeHealthIssue>()
+	private readonly listeners = new Set<Listener>()
+	private total = 0
+	private checking = false
+	private checkedAt: number | null = null
+
+	isUsable(key: string): boolean {
+		return !this.broken.has(key)
+	}
+
+	brokenKeys(): string[] {
+		return [...this.broken.keys()]
+	}
+
+	snapshot(): MemeHealthSnapshot {
+		return {
+			status: this.checkedAt === null ? 'downloading' : this.broken.size ? 'degraded' : 'ready',
+			checking: this.checking,
+			total: this.total,
+			usable: Math.max(this.total - this.broken.size, 0),
+			broken: [...this.broken.values()],
+			checkedAt: this.checkedAt,
+		}
+	}
+
+	begin(total: number) {
+		this.total = total
+		this.checking = true
+		this.emit()
+	}
+
+	/** 应用一批检查结果；keys 为本批检查的全部 key */
+	apply(keys: string[], issues: MemeHealthIssue[]) {
+		for (const key of keys) this.broken.delete(key)
+		for (const issue of issues) this.broken.set(issue.key, issue)
+		this.emit()
+	}
+
+	finish() {
+		this.checking = false
+		this.checkedAt = Date.now()
+		this.emit()
+	}
+
+	/** 中断时保留已有结果，只结束 checking 状态 */
+	abort() {
+		this.checking = false
+		this.emit()
+	}
+
+	subscribe(listener: Listener): () => void {
+		this.listeners.add(listener)
+		return () => this.listeners.delete(listener)
+	}
+
+	private emit() {
+		const snapshot = this.snapshot()
+		for (const listener of this.listeners) listener(snapshot)
+	}
+}
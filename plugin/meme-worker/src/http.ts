@@ -0,0 +1,108 @@
+import { Buffer } from 'node:buffer'
+import path from 'node:path'
+
+import { v } from '@pluxel/hmr/config'
+import type { MemeInfo } from 'pluxel-plugin-napi-rs/meme-generator'
+
+import type { MemeImageSource, MemeOptionInput } from './types'
+
+const TextsSchema = v.array(v.string())
+const OptionsSchema = v.record(v.string(), v.union([v.boolean(), v.string(), v.number()]))
+
+export class HttpRequestError extends Error {
+	constructor(
+		message: string,
+		readonly status: 400 | 413 = 400,
+	) {
+		super(message)
+		this.name = 'HttpRequestError'
+	}
+}
+
+export interface HttpGenerateRequest {
+	images: MemeImageSource[]
+	texts: string[]
+	options?: Record<string, MemeOptionInput>
+}
+
+/** MemeInfo 中的 Set/Date 无法直接 JSON 序列化 */
+export function serializeMemeInfo(info: MemeInfo) {
+	return {
+		...info,
+		tags: [...info.tags],
+		dateCreated: new Date(info.dateCreated).toISOString(),
+		dateModified: new Date(info.dateModified).toISOString(),
+	}
+}
+
+function parseJsonField(form: FormData, name: string): unknown {
+	const raw = form.get(name)
+	if (typeof raw !== 'string' || !raw.trim()) return undefined
+	try {
+		return JSON.parse(raw)
+	} catch {
+		throw new HttpRequestError(`字段 ${name} 不是合法的 JSON`)
+	}
+}
+
+/** texts 可以是多个同名字段，也可以是单个 JSON 数组 */
+function parseTexts(form: FormData): string[] {
+	const values = form.getAll('texts').filter((value): value is string => typeof value === 'string')
+	if (values.length === 1 && values[0].trim().startsWith('[')) {
+		const parsed = v.safeParse(TextsSchema, parseJsonField(form, 'texts'))
+		if (!parsed.success) throw new HttpRequestError('字段 texts 需为字符串数组')
+		return parsed.output
+	}
+	return values
+}
+
+/**
+ * 读取 multipart 请求体：先按 Content-Length 拒绝，再边读边计数，超过 maxBytes 立即中止，
+ * 避免 formData() 在解析前缓冲任意大小的请求体。
+ */
+export async function readFormData(request: Request, maxBytes: number): Promise<FormData> {
+	const declared = Number(request.headers.get('content-length'))
+	if (declared > maxBytes) throw new HttpRequestError(`请求体超过 ${maxBytes} 字节`, 413)
+
+	const chunks: Buffer[] = []
+	let total = 0
+	if (request.body) {
+		for await (const chunk of request.body as unknown as AsyncIterable<Uint8Array>) {
+			total += chunk.byteLength
+			if (total > maxBytes) throw new HttpRequestError(`请求体超过 ${maxBytes} 字节`, 413)
+			chunks.push(Buffer.from(chunk))
+		}
+	}
+	const body = new Response(Buffer.concat(chunks), {
+		headers: { 'content-type': request.headers.get('content-type') ?? '' },
+	})
+	try {
+		return await body.formData()
+	} catch {
+		throw new HttpRequestError('请求体不是合法的 multipart 表单')
+	}
+}
+
+/**
+ * 解析 multipart 生成请求：`images` 为上传的文件（按顺序），`texts` 为文字，
+ * `options`（兼容 meme-generator 的 `args`）为 JSON 对象。
+ */
+export async function parseGenerateForm(form: FormData): Promise<HttpGenerateRequest> {
+	const images = await Promise.all(
+		form
+			.getAll('images')
+			.filter((value): value is File => typeof value !== 'string')
+			.map(async (file) => ({
+				name: path.parse(file.name).name,
+				data: Buffer.from(await file.arrayBuffer()),
+			})),
+	)
+	const rawOptions = parseJsonField(form, 'options') ?? parseJsonField(form, 'args')
+	let options: Record<string, MemeOptionInput> | undefined
+	if (rawOptions !== undefined) {
+		const parsed = v.safeParse(OptionsSchema, rawOptions)
+		if (!parsed.success) throw new HttpRequestError('字段 options 需为键值对象')
+		options = parsed.output
+	}
+	return { images, texts: parseTexts(form), options }
+}
@@ -0,0 +1,186 @@
+import { Buffer } from 'node:buffer'
+import dns from 'node:dns/promises'
+import fs from 'node:fs/promises'
+import net from 'node:net'
+import path from 'node:path'
+
+import type { Image as MemeImage } from 'pluxel-plugin-napi-rs/meme-generator'
+
+import type { MemeImageLimits, MemeImageSource } from './types'
+
+export const DEFAULT_IMAGE_LIMITS: MemeImageLimits = {
+	maxBytes: 10 * 1024 * 1024,
+	timeoutMs: 10_000,
+	maxPixels: 40_000_000,
+	allowHosts: [],
+	denyHosts: [],
+	allowPrivateNetwork: false,
+	allowLocalFiles: false,
+}
+
+const MAX_REDIRECTS = 5
+
+/** 回环、私有、链路本地、组播等地址段；BlockList 会把 IPv4 映射的 IPv6 地址按 IPv4 规则匹配 */
+const PRIVATE_NETWORKS = new net.BlockList()
+for (const [address, prefix] of [
+	['0.0.0.0', 8],
+	['10.0.0.0', 8],
+	['100.64.0.0', 10],
+	['127.0.0.0', 8],
+	['169.254.0.0', 16],
+	['172.16.0.0', 12],
+	['192.0.0.0', 24],
+	['192.168.0.0', 16],
+	['198.18.0.0', 15],
+	['224.0.0.0', 4],
+	['240.0.0.0', 4],
+] as const) {
+	PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv4')
+}
+for (const [address, prefix] of [
+	['::', 128],
+	['::1', 128],
+	['fc00::', 7],
+	['fe80::', 10],
+	['ff00::', 8],
+] as const) {
+	PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv6')
+}
+
+export class MemeImageError extends Error {
+	constructor(
+		source: string,
+		reason: string,
+		/** 检查图片的 worker 出错，而不是图片本身不可用 */
+		readonly internal = false,
+	) {
+		super(`图片 ${source.length > 80 ? `${source.slice(0, 77)}...` : source} 无法使用：${reason}`)
+		this.name = 'MemeImageError'
+	}
+}
+
+function describeSource(source: MemeImageSource, index: number) {
+	if ('url' in source) return source.url
+	if ('path' in source) return source.path
+	return source.name ?? `#${index + 1}`
+}
+
+/** 支持精确匹配；`*.example.com` 匹配其任意子域名（不含 example.com 本身） */
+function matchHost(host: string, patterns: string[]) {
+	return patterns.some((pattern) => {
+		const p = pattern.toLowerCase()
+		return p.startsWith('*.') ? host.endsWith(p.slice(1)) : host === p
+	})
+}
+
+function isPrivateAddress(address: string) {
+	const family = net.isIP(address)
+	return family !== 0 && PRIVATE_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * 按主机名单检查，再解析主机名并拒绝落在内网地址段的目标；
+ * URL 解析已把 0x7f000001、2130706433 等写法规范化为点分形式
+ */
+async function assertAllowedHost(url: URL, source: string, limits: MemeImageLimits) {
+	const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '')
+	if (matchHost(host, limits.denyHosts)) throw new MemeImageError(source, `主机 ${host} 已被禁止`)
+	if (limits.allowHosts.length && !matchHost(host, limits.allowHosts)) {
+		throw new MemeImageError(source, `主机 ${host} 不在允许列表中`)
+	}
+	if (limits.allowPrivateNetwork) return
+	let addresses: { address: string }[]
+	try {
+		addresses = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true })
+	} catch {
+		throw new MemeImageError(source, `无法解析主机 ${host}`)
+	}
+	const blocked = addresses.find(({ address }) => isPrivateAddress(address))
+	if (blocked) throw new MemeImageError(source, `主机 ${host} 解析到内网地址 ${blocked.address}`)
+}
+
+async function readLimited(response: Response, maxBytes: number, source: string) {
+	const declared = Number(response.headers.get('content-length'))
+	if (declared > maxBytes) throw new MemeImageError(source, `超过 ${maxBytes} 字节`)
+	if (!response.body) return Buffer.alloc(0)
+
+	const chunks: Buffer[] = []
+	let total = 0
+	for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+		total += chunk.byteLength
+		if (total > maxBytes) throw new MemeImageError(source, `超过 ${maxBytes} 字节`)
+		chunks.push(Buffer.from(chunk))
+	}
+	return Buffer.concat(chunks)
+}
+
+async function fetchUrl(url: string, limits: MemeImageLimits) {
+	if (url.startsWith('data:')) {
+		const comma = url.indexOf(',')
+		if (comma < 0 || url.lastIndexOf('base64', comma) < 0) throw new MemeImageError(url, '仅支持 base64 data URL')
+		// base64 解码后约为 3/4，先按字符数粗略拦截
+		if ((url.length - comma) * 0.75 > limits.maxBytes) throw new MemeImageError(url, `超过 ${limits.maxBytes} 字节`)
+		return Buffer.from(url.slice(comma + 1), 'base64')
+	}
+	if (!/^https?:\/\//i.test(url)) throw new MemeImageError(url, '仅支持 http(s) 与 data URL')
+
+	// 整个下载（含重定向）共用一个超时
+	const signal = AbortSignal.timeout(limits.timeoutMs)
+	try {
+		let target = new URL(url)
+		for (let redirects = 0; ; redirects++) {
+			// 每一跳都重新检查，重定向不能绕过主机名单与内网限制
+			await assertAllowedHost(target, url, limits)
+			const response = await fetch(target, { signal, redirect: 'manual' })
+			if (response.status >= 300 && response.status < 400) {
+				const location = response.headers.get('location')
+				if (!location || redirects >= MAX_REDIRECTS) {
+					throw new MemeImageError(url, `无法跟随的重定向 ${response.status}`)
+				}
+				target = new URL(location, target)
+				continue
+			}
+			if (!response.ok) throw new MemeImageError(url, `HTTP ${response.status}`)
+			return await readLimited(response, limits.maxBytes, url)
+		}
+	} catch (err) {
+		if (err instanceof MemeImageError) throw err
+		if (signal.aborted) throw new MemeImageError(url, `下载超时（${limits.timeoutMs}ms）`)
+		throw new MemeImageError(url, `下载失败：${err instanceof Error ? err.message : String(err)}`)
+	}
+}
+
+async function readFile(file: string, limits: MemeImageLimits) {
+	if (!limits.allowLocalFiles) throw new MemeImageError(file, '不允许读取本地文件')
+	const stat = await fs.stat(file).catch(() => null)
+	if (!stat?.isFile()) throw new MemeImageError(file, '文件不存在')
+	if (stat.size > limits.maxBytes) throw new MemeImageError(file, `超过 ${limits.maxBytes} 字节`)
+	return fs.readFile(file)
+}
+
+/**
+ * 将 url/path/buffer/{name,data} 统一转换为生成器需要的 Image；
+ * 未指定 name 时取 URL 或文件名（生成器会把 name 用作部分模板的默认文字）。
+ */
+export async function loadImageSource(
+	source: MemeImageSource,
+	index: number,
+	limits: MemeImageLimits = DEFAULT_IMAGE_LIMITS,
+): Promise<MemeImage> {
+	const label = describeSource(source, index)
+	let data: Buffer
+	let name: string | undefined
+	if ('url' in source) {
+		data = await fetchUrl(source.url, limits)
+		name = source.url.startsWith('data:') ? undefined : path.posix.basename(new URL(source.url).pathname)
+	} else if ('path' in source) {
+		data = await readFile(source.path, limits)
+		name = path.parse(source.path).name
+	} else {
+		const bytes = 'buffer' in source ? source.buffer : source.data
+		if (bytes.byteLength > limits.maxBytes) throw new MemeImageError(label, `超过 ${limits.maxBytes} 字节`)
+		data = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+	}
+	if (!data.byteLength) throw new MemeImageError(label, '内容为空')
+	return { name: source.name ?? name ?? '', data }
+}
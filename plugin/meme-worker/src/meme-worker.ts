@@ -4,25 +4,106 @@ import path from 'node:path'
 import { fileURLToPath, pathToFileURL } from 'node:url'
 
 import { BasePlugin, Config, Plugin } from '@pluxel/hmr'
+import { RpcTarget } from '@pluxel/hmr/capnweb'
 import { v } from '@pluxel/hmr/config'
+import type { SseChannel } from '@pluxel/hmr/services'
+import { Collection } from '@pluxel/hmr/signaldb'
 import Tinypool from 'tinypool'
 
+import {
+	createCommandIndex,
+	parseMemeCommand,
+	type MemeCommandContext,
+	type MemeCommandIndex,
+	type MemeCommandParseResult,
+} from './command'
+import { MemeHealth } from './health'
+import { HttpRequestError, parseGenerateForm, readFormData, serializeMemeInfo, type HttpGenerateRequest } from './http'
+import { DEFAULT_IMAGE_LIMITS, loadImageSource, MemeImageError } from './images'
+import { validateMemeOptions } from './options'
+import { GLOBAL_SCOPE, MemePolicy } from './policy'
+import { createSearchIndex, EXACT_MATCH_SCORE, searchIndex, type MemeSearchIndex, type MemeSearchTools } from './search'
+import { createMemeTools, detectImageMime, toToolImageResult } from './tools'
+import { MemeUsage } from './usage'
 import type {
+	MemeGenerateFromPayload,
+	MemeHealthSnapshot,
+	MemeHealthWorkerResult,
+	MemeImageLimits,
 	MemeImageResult,
+	MemeListOptions,
+	MemeListSortBy,
 	MemeMetadata,
 	MemeRenderPayload,
 	MemeRenderResult,
 	MemeResolveResult,
+	MemeScopeOptions,
+	MemeScopePolicy,
+	MemeSearchResult,
+	MemeStatisticsKind,
+	MemeToolCall,
+	MemeToolImageResult,
+	MemeToolWorkerResult,
+	MemeUsageEntry,
+	MemeUsageQuery,
 	MemeWorkerJob,
 } from './types'
+import type { Image as MemeImage, Tools } from 'pluxel-plugin-napi-rs/meme-generator'
+import type { PINYIN_STYLE } from 'pluxel-plugin-napi-rs/pinyin'
 export type * from 'pluxel-plugin-napi-rs/meme-generator'
 
+type MemeModule = typeof import('pluxel-plugin-napi-rs/meme-generator')
+
 const DEFAULT_IDLE_TIMEOUT = 30_000
+const DEFAULT_NEW_WITHIN_DAYS = 30
+const DEFAULT_HOT_TOP = 10
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_HEALTH_RECHECK_INTERVAL = 5 * 60 * 1000
+const DEFAULT_HTTP_ROUTE = '/memes'
+const DEFAULT_HTTP_MAX_BODY_BYTES = 32 * 1024 * 1024
+// 每个 worker 任务检查的表情数，避免长时间占用线程阻塞生成请求
+const HEALTH_BATCH_SIZE = 16
+
+// 原生 Tools.MemeSortBy / MemeStatisticsType 是 const enum，运行时不存在，这里按数值传递
+const SORT_BY: Record<MemeListSortBy, number> = {
+	key: 0,
+	keywords: 1,
+	'keywords-pinyin': 2,
+	'date-created': 3,
+	'date-modified': 4,
+}
+const STATISTICS_TYPE: Record<MemeStatisticsKind, number> = { meme: 0, time: 1 }
+const STATISTICS_TITLE: Record<MemeStatisticsKind, string> = { meme: '表情调用统计', time: '表情调用趋势' }
 const workerEntryCandidates = ['worker.js', 'worker.mjs']
 
 const CfgSchema = v.object({
+	/** 生成任务的线程数；资源下载与健康检查另占一个线程 */
 	maxThreads: v.optional(v.number()),
 	idleTimeout: v.optional(v.number(), DEFAULT_IDLE_TIMEOUT),
+	/** generateFrom 单张图片的字节上限 */
+	imageMaxBytes: v.optional(v.number(), DEFAULT_IMAGE_LIMITS.maxBytes),
+	/** generateFrom 下载单张图片的超时 */
+	imageTimeoutMs: v.optional(v.number(), DEFAULT_IMAGE_LIMITS.timeoutMs),
+	/** generateFrom 单张图片的像素上限（宽 × 高） */
+	imageMaxPixels: v.optional(v.number(), DEFAULT_IMAGE_LIMITS.maxPixels),
+	/** generateFrom 可下载的主机，为空时不限制（仍受 imageDenyHosts 约束）；支持 `*.example.com` */
+	imageAllowHosts: v.optional(v.array(v.string()), DEFAULT_IMAGE_LIMITS.allowHosts),
+	imageDenyHosts: v.optional(v.array(v.string()), DEFAULT_IMAGE_LIMITS.denyHosts),
+	/** 允许下载解析到回环、私有或链路本地地址的主机 */
+	imageAllowPrivateNetwork: v.optional(v.boolean(), DEFAULT_IMAGE_LIMITS.allowPrivateNetwork),
+	/** 允许 generateFrom 读取本地文件路径 */
+	imageAllowLocalFiles: v.optional(v.boolean(), DEFAULT_IMAGE_LIMITS.allowLocalFiles),
+	/** 定期重新检查缺少资源的表情，0 表示不重新检查 */
+	healthRecheckInterval: v.optional(v.number(), DEFAULT_HEALTH_RECHECK_INTERVAL),
+	/** 提供与 meme-generator 独立服务兼容的 HTTP 接口 */
+	httpEnabled: v.optional(v.boolean(), false),
+	httpRoute: v.optional(v.string(), DEFAULT_HTTP_ROUTE),
+	/** 设置后所有请求需携带 `Authorization: Bearer <token>`；未设置时不注册生成接口 */
+	httpToken: v.optional(v.string()),
+	/** HTTP 接口在全局策略之外应用的 scope；请求中的 `?scope=` 不会被采用 */
+	httpScope: v.optional(v.string()),
+	/** 生成请求的 multipart 请求体上限 */
+	httpMaxBodyBytes: v.optional(v.number(), DEFAULT_HTTP_MAX_BODY_BYTES),
 })
 
 function resolveWorkerEntrypoint(): string {
@@ -50,18 +131,65 @@ export class MemeWorker extends BasePlugin {
 	private config!: Config<typeof CfgSchema>
 
 	private pool: Tinypool | null = null
+	/** 资源下载与健康检查专用的单线程池，下载期间不占用生成任务的 worker */
+	private healthPool: Tinypool | null = null
 	private poolInitPromise: Promise<void> | null = null
 	private readyPromise: Promise<void> | null = null
 	private memeLib: MemeModule | null = null
 	private memeLibPromise: Promise<MemeModule> | null = null
+	private commandIndex: MemeCommandIndex | null = null
+	private searchIndex: MemeSearchIndex | null = null
+	private usage!: MemeUsage
+	private policy!: MemePolicy
+	private readonly health = new MemeHealth()
+	private healthCheckPromise: Promise<MemeHealthSnapshot> | null = null
+	private healthTimer: ReturnType<typeof setInterval> | null = null
 	private readonly workerEntrypoint = resolveWorkerEntrypoint()
 
+	/** 图片工具（翻转、旋转、裁剪、GIF 拆分/合成等），在 worker 中执行 */
+	readonly tools = createMemeTools((call) => this.run<MemeToolWorkerResult>({ kind: 'tool', call }))
+
 	override async init(): Promise<void> {
+		this.usage = new MemeUsage(
+			new Collection<MemeUsageEntry, string, MemeUsageEntry>({
+				name: 'meme-usage',
+				persistence: await this.ctx.pluginData.persistenceForCollection<MemeUsageEntry>('usage'),
+			}),
+		)
+		this.policy = new MemePolicy(
+			new Collection<MemeScopePolicy, string, MemeScopePolicy>({
+				name: 'meme-policies',
+				persistence: await this.ctx.pluginData.persistenceForCollection<MemeScopePolicy>('policies'),
+			}),
+		)
+		await this.policy.load()
+		this.ctx.rpc.registerExtension(() => new MemeWorkerRpc(this))
+		this.ctx.sse.registerExtension(() => this.createSseHandler())
+		this.ctx.extensionService.register({ entryPath: './ui/index.tsx' })
+		if (this.config.httpEnabled) {
+			this.registerHttpRoutes()
+		}
 		await this.ensurePool()
 		this.ctx.logger.info('[meme-worker] ready')
+
+		// 资源下载与检查在后台进行，完成前状态保持 downloading，resolveMeme 不隐藏任何表情
+		void this.checkHealth()
+		// 索引建好前 search 退回原生 searchMemes
+		void this.buildSearchIndex()
+		const interval = this.config.healthRecheckInterval ?? DEFAULT_HEALTH_RECHECK_INTERVAL
+		if (interval > 0) {
+			this.healthTimer = setInterval(() => {
+				const broken = this.health.brokenKeys()
+				if (broken.length) void this.checkHealth(broken)
+			}, interval)
+		}
 	}
 
 	override async stop(): Promise<void> {
+		if (this.healthTimer) {
+			clearInterval(this.healthTimer)
+			this.healthTimer = null
+		}
 		if (!this.pool && this.poolInitPromise) {
 			// Wait for in-flight pool creation before attempting destroy
 			await this.poolInitPromise
@@ -71,20 +199,95 @@ export class MemeWorker extends BasePlugin {
 			await this.pool.destroy()
 			this.pool = null
 		}
+		if (this.healthPool) {
+			await this.healthPool.destroy()
+			this.healthPool = null
+		}
 		this.ctx.logger.info('[meme-worker] stopped')
 	}
 
 	async generateRaw(payload: MemeRenderPayload): Promise<MemeRenderResult> {
-		return this.run({ kind: 'meme', payload })
+		const { options, ...rest } = payload
+		await this.loadMemeLib()
+		// 未知模板交给 worker 返回统一的“未找到模板”
+		const info = options ? this.getMemeInfo(payload.key) : null
+		const validated = info ? validateMemeOptions(info, options) : { ok: true as const, values: {} }
+		if (!validated.ok) {
+			return { ok: false, message: validated.message, durationMs: 0 }
+		}
+		const res = await this.run<MemeRenderResult>({ kind: 'meme', payload: { ...rest, options: validated.values } })
+		if (res.ok) {
+			this.usage.record(payload.key).catch((err) => {
+				this.ctx.logger.warn(`[meme-worker] failed to record usage for ${payload.key}`, err)
+			})
+		}
+		return res
+	}
+
+	/**
+	 * 从 URL、本地路径或字节生成表情：先按模板校验图片数量，再并行读取并用 Tools.inspect
+	 * 检查每张图片，全部可用后才派发生成任务。
+	 */
+	async generateFrom(payload: MemeGenerateFromPayload, limits: Partial<MemeImageLimits> = {}): Promise<MemeImageResult> {
+		const started = Date.now()
+		const fail = (message: string, internal = false): MemeImageResult => ({
+			ok: false,
+			message,
+			durationMs: Date.now() - started,
+			internal,
+		})
+		await this.loadMemeLib()
+		const info = this.getMemeInfo(payload.key)
+		if (!info) return fail(`未找到模板：${payload.key}`)
+
+		const { minImages, maxImages } = info.params
+		const count = payload.images.length
+		if (count < minImages || count > maxImages) {
+			const expected = minImages === maxImages ? `${minImages}` : `${minImages}~${maxImages}`
+			return fail(`模板 ${info.key} 需要 ${expected} 张图片，实际为 ${count} 张`)
+		}
+
+		const resolved: MemeImageLimits = {
+			maxBytes: limits.maxBytes ?? this.config.imageMaxBytes ?? DEFAULT_IMAGE_LIMITS.maxBytes,
+			timeoutMs: limits.timeoutMs ?? this.config.imageTimeoutMs ?? DEFAULT_IMAGE_LIMITS.timeoutMs,
+			maxPixels: limits.maxPixels ?? this.config.imageMaxPixels ?? DEFAULT_IMAGE_LIMITS.maxPixels,
+			allowHosts: limits.allowHosts ?? this.config.imageAllowHosts ?? DEFAULT_IMAGE_LIMITS.allowHosts,
+			denyHosts: limits.denyHosts ?? this.config.imageDenyHosts ?? DEFAULT_IMAGE_LIMITS.denyHosts,
+			allowPrivateNetwork:
+				limits.allowPrivateNetwork ?? this.config.imageAllowPrivateNetwork ?? DEFAULT_IMAGE_LIMITS.allowPrivateNetwork,
+			allowLocalFiles: limits.allowLocalFiles ?? this.config.imageAllowLocalFiles ?? DEFAULT_IMAGE_LIMITS.allowLocalFiles,
+		}
+		let images: MemeImage[]
+		try {
+			images = await Promise.all(
+				payload.images.map(async (source, index) => {
+					const image = await loadImageSource(source, index, resolved)
+					const inspected = await this.tools.inspect(image.data)
+					const label = image.name || `#${index + 1}`
+					if (!inspected.ok) throw new MemeImageError(label, inspected.message, inspected.internal)
+					const { width, height } = inspected.info
+					if (width * height > resolved.maxPixels) {
+						throw new MemeImageError(label, `${width}x${height} 超过 ${resolved.maxPixels} 像素`)
+					}
+					return image
+				}),
+			)
+		} catch (err) {
+			if (err instanceof MemeImageError) return fail(err.message, err.internal)
+			throw err
+		}
+
+		const res = await this.generateImage({ ...payload, images })
+		return res.ok ? res : { ...res, durationMs: Date.now() - started }
 	}
 
 	async generateImage(payload: MemeRenderPayload): Promise<MemeImageResult> {
 		const res = await this.generateRaw(payload)
 		if (!res.ok) {
-			return { ok: false, message: res.message, durationMs: res.durationMs }
+			return { ok: false, message: res.message, durationMs: res.durationMs, internal: res.internal }
 		}
 		const buffer = Buffer.from(res.buffer)
-		const mime = 'image/png'
+		const mime = detectImageMime(buffer)
 		return {
 			ok: true,
 			buffer,
@@ -94,8 +297,87 @@ export class MemeWorker extends BasePlugin {
 		}
 	}
 
-	listKeys(): string[] {
-		return this.requireMemeLib().getMemeKeys()
+	/**
+	 * 渲染表情列表图（帮助命令用）。new/hot 除显式指定外，默认按创建时间与使用次数自动标记。
+	 */
+	async renderMemeList(options: MemeListOptions = {}): Promise<MemeToolImageResult> {
+		const lib = await this.loadMemeLib()
+		const infos = lib.getMemes().map((meme) => meme.info)
+		const tags = options.tags?.length ? new Set(options.tags) : null
+		const exclude = new Set(options.exclude)
+		for (const info of infos) {
+			if (!this.policy.isAllowed(info.key, options.scope)) exclude.add(info.key)
+		}
+		if (tags) {
+			for (const info of infos) {
+				if (![...info.tags].some((tag) => tags.has(tag))) exclude.add(info.key)
+			}
+		}
+
+		const marks = new Map<string, { disabled?: boolean; hot?: boolean; new?: boolean }>()
+		const mark = (key: string, flag: 'disabled' | 'hot' | 'new') => {
+			marks.set(key, { ...marks.get(key), [flag]: true })
+		}
+		const newWithinDays = options.newWithinDays ?? DEFAULT_NEW_WITHIN_DAYS
+		if (newWithinDays > 0) {
+			const since = Date.now() - newWithinDays * DAY_MS
+			for (const info of infos) {
+				if (new Date(info.dateCreated).getTime() >= since) mark(info.key, 'new')
+			}
+		}
+		const hotTop = options.hotTop ?? DEFAULT_HOT_TOP
+		if (hotTop > 0) {
+			for (const [key] of (await this.usage.totals()).slice(0, hotTop)) mark(key, 'hot')
+		}
+		for (const key of options.new ?? []) mark(key, 'new')
+		for (const key of options.hot ?? []) mark(key, 'hot')
+		for (const key of options.disabled ?? []) mark(key, 'disabled')
+
+		const params: Tools.RenderMemeListParams = {
+			memeProperties: Object.fromEntries(marks),
+			excludeMemes: [...exclude],
+			sortBy: SORT_BY[options.sortBy ?? 'keywords-pinyin'] as Tools.MemeSortBy,
+			sortReverse: options.reverse ?? false,
+			textTemplate: options.textTemplate,
+			addCategoryIcon: options.addCategoryIcon,
+		}
+		return this.renderToolImage({ op: 'renderMemeList', params })
+	}
+
+	/**
+	 * 渲染统计图；不传 data 时使用持久化的调用计数（meme：按表情，time：按天）。
+	 */
+	async renderStatistics(
+		type: MemeStatisticsKind,
+		data?: [string, number][],
+		options: MemeUsageQuery & { title?: string } = {},
+	): Promise<MemeToolImageResult> {
+		const { title, ...query } = options
+		const rows = data ?? (type === 'meme' ? await this.usage.totals(query) : await this.usage.timeline(query))
+		return this.renderToolImage({
+			op: 'renderMemeStatistics',
+			params: {
+				title: title ?? STATISTICS_TITLE[type],
+				statisticsType: STATISTICS_TYPE[type] as Tools.MemeStatisticsType,
+				data: rows,
+			},
+		})
+	}
+
+	/** 持久化的调用次数，按次数降序 */
+	getUsage(query: MemeUsageQuery = {}): Promise<[string, number][]> {
+		return this.usage.totals(query)
+	}
+
+	resetUsage(keys?: string[]): Promise<void> {
+		return this.usage.reset(keys)
+	}
+
+	/** 可用的表情 key，已按全局与 scope 策略过滤 */
+	listKeys(options: MemeScopeOptions = {}): string[] {
+		return this.requireMemeLib()
+			.getMemeKeys()
+			.filter((key) => this.policy.isAllowed(key, options.scope))
 	}
 
 	getMemeInfo(key: string): MemeMetadata | null {
@@ -103,41 +385,276 @@ export class MemeWorker extends BasePlugin {
 		return meme?.info ?? null
 	}
 
-	search(query: string, includeTags = true): string[] {
-		return this.requireMemeLib().searchMemes(query, includeTags)
+	/** 搜索表情；命中别名的 key 排在最前，被策略禁用的 key 不会出现 */
+	search(query: string, includeTags = true, options: MemeScopeOptions = {}): string[] {
+		return this.searchScored(query, includeTags, options).map((result) => result.key)
+	}
+
+	/**
+	 * 带分数的搜索：关键词、拼音（全拼/首字母）与分词匹配，按分数降序；
+	 * 原生 searchMemes 额外命中的 key 以最低分追加在后。
+	 */
+	searchScored(query: string, includeTags = true, options: MemeScopeOptions = {}): MemeSearchResult[] {
+		const results = this.searchIndex ? searchIndex(this.searchIndex, query, { includeTags }) : []
+		const seen = new Set(results.map((result) => result.key))
+		for (const key of this.requireMemeLib().searchMemes(query, includeTags)) {
+			if (!seen.has(key)) results.push({ key, score: 1 })
+			seen.add(key)
+		}
+		const aliased = this.policy.resolveAlias(query.trim(), options.scope)
+		const ranked = aliased
+			? [{ key: aliased, score: EXACT_MATCH_SCORE }, ...results.filter((result) => result.key !== aliased)]
+			: results
+		return ranked.filter((result) => this.policy.isAllowed(result.key, options.scope))
 	}
 
-	resolveMeme(identifier: string): MemeResolveResult {
+	/** 缺少资源的表情在恢复前不会被解析到 */
+	resolveMeme(identifier: string, options: MemeScopeOptions = {}): MemeResolveResult {
 		const normalized = identifier.trim()
 		if (!normalized) return null
 
 		if (normalized.toLowerCase() === 'random') {
-			const keys = this.listKeys()
+			const keys = this.listKeys(options).filter((key) => this.health.isUsable(key))
 			if (!keys.length) return null
 			const randomKey = keys[Math.floor(Math.random() * keys.length)]
 			const info = this.getMemeInfo(randomKey)
 			return info ? { kind: 'exact', info } : null
 		}
 
-		const exact = this.getMemeInfo(normalized)
+		const key = this.policy.resolveAlias(normalized, options.scope) ?? normalized
+		const exact =
+			this.policy.isAllowed(key, options.scope) && this.health.isUsable(key) ? this.getMemeInfo(key) : null
 		if (exact) return { kind: 'exact', info: exact }
 
-		const matches = this.search(normalized, true)
+		const matches = this.searchScored(normalized, true, options).filter((result) => this.health.isUsable(result.key))
 		if (!matches.length) return null
 
-		if (matches.length === 1) {
-			const info = this.getMemeInfo(matches[0])
+		// 唯一结果，或只有一个关键词完全匹配时直接命中
+		const [top, second] = matches
+		if (!second || (top.score >= EXACT_MATCH_SCORE && second.score < EXACT_MATCH_SCORE)) {
+			const info = this.getMemeInfo(top.key)
 			return info ? { kind: 'exact', info } : null
 		}
 
-		return { kind: 'choices', matches: matches.slice(0, 5) }
+		return { kind: 'choices', matches: matches.slice(0, 5).map((result) => result.key) }
+	}
+
+	/**
+	 * 解析聊天命令（快捷指令、关键词、@提及、URL、`#序号` 附件与 `--选项`），
+	 * 成功时返回可直接传给 generateImage 的 payload。
+	 */
+	async parseCommand(input: string, context: MemeCommandContext = {}): Promise<MemeCommandParseResult> {
+		const lib = await this.loadMemeLib()
+		this.commandIndex ??= createCommandIndex(lib.getMemes().map((meme) => meme.info))
+		return parseMemeCommand(this.commandIndex, input, context, {
+			isAllowed: (key) => this.policy.isAllowed(key, context.scope) && this.health.isUsable(key),
+			aliases: this.policy.aliases(context.scope),
+		})
+	}
+
+	getHealth(): MemeHealthSnapshot {
+		return this.health.snapshot()
+	}
+
+	/**
+	 * 在健康检查线程中逐批生成预览以检查模板资源；不传 keys 时检查全部表情。
+	 * 首批任务会先等待资源下载完成，期间生成任务照常在主 pool 中执行。
+	 * 同一时间只进行一次检查，重复调用返回进行中的结果。
+	 */
+	checkHealth(keys?: string[]): Promise<MemeHealthSnapshot> {
+		this.healthCheckPromise ??= (async () => {
+			const lib = await this.loadMemeLib()
+			const all = lib.getMemeKeys()
+			const targets = keys ?? all
+			this.health.begin(all.length)
+			try {
+				for (let i = 0; i < targets.length; i += HEALTH_BATCH_SIZE) {
+					const batch = targets.slice(i, i + HEALTH_BATCH_SIZE)
+					const res = await this.runHealth(batch)
+					if (!res.ok) throw new Error(res.message)
+					this.health.apply(batch, res.issues)
+				}
+				this.health.finish()
+			} catch (err) {
+				this.health.abort()
+				this.ctx.logger.warn(err, '[meme-worker] resource check failed')
+				return this.health.snapshot()
+			}
+			const snapshot = this.health.snapshot()
+			if (snapshot.broken.length) {
+				this.ctx.logger.warn(
+					`[meme-worker] ${snapshot.broken.length} memes are missing resources: ${snapshot.broken.map((issue) => issue.key).join(', ')}`,
+				)
+			}
+			return snapshot
+		})().finally(() => {
+			this.healthCheckPromise = null
+		})
+		return this.healthCheckPromise
+	}
+
+	/** 未经策略过滤的完整目录，供管理界面选择 key */
+	async catalog(): Promise<{ key: string; keywords: string[] }[]> {
+		const lib = await this.loadMemeLib()
+		return lib.getMemes().map(({ info }) => ({ key: info.key, keywords: info.keywords }))
+	}
+
+	/** 所有已保存的策略（含全局） */
+	listPolicies(): MemeScopePolicy[] {
+		return this.policy.list()
+	}
+
+	getPolicy(scope: string = GLOBAL_SCOPE): MemeScopePolicy {
+		return this.policy.get(scope)
+	}
+
+	async updatePolicy(scope: string, patch: { allow?: string[]; block?: string[] }): Promise<MemeScopePolicy> {
+		const lib = await this.loadMemeLib()
+		const unknown = [...(patch.allow ?? []), ...(patch.block ?? [])].filter((key) => !lib.getMeme(key))
+		if (unknown.length) throw new Error(`未知的表情：${unknown.join('、')}`)
+		return this.policy.update(this.normalizeScope(scope), patch)
+	}
+
+	async setAlias(scope: string, alias: string, key: string): Promise<MemeScopePolicy> {
+		const lib = await this.loadMemeLib()
+		const name = alias.trim()
+		if (!name) throw new Error('别名不能为空')
+		if (lib.getMeme(name)) throw new Error(`别名 ${name} 与已有表情 key 冲突`)
+		if (!lib.getMeme(key)) throw new Error(`未知的表情：${key}`)
+		return this.policy.setAlias(this.normalizeScope(scope), name, key)
+	}
+
+	removeAlias(scope: string, alias: string): Promise<MemeScopePolicy> {
+		return this.policy.removeAlias(this.normalizeScope(scope), alias)
+	}
+
+	removePolicy(scope: string): Promise<boolean> {
+		return this.policy.remove(this.normalizeScope(scope))
+	}
+
+	private normalizeScope(scope: string) {
+		const id = scope.trim()
+		if (!id) throw new Error('scope 不能为空')
+		return id
 	}
 
-	private async run(job: MemeWorkerJob): Promise<MemeRenderResult> {
+	private createSseHandler() {
+		return (channel: SseChannel) => {
+			channel.emit('health', { type: 'health', health: this.health.snapshot() })
+			const unsubscribe = this.health.subscribe((health) => channel.emit('health', { type: 'health', health }))
+			channel.onAbort(unsubscribe)
+			return unsubscribe
+		}
+	}
+
+	/**
+	 * 与 meme-generator HTTP 服务对应的路由：`GET /keys`、`GET /search`、`GET /:key/info`
+	 * 与 multipart 的 `POST /:key`；均按 httpScope 策略与资源状态过滤，生成接口需配置 httpToken。
+	 */
+	private registerHttpRoutes() {
+		const base = (this.config.httpRoute ?? DEFAULT_HTTP_ROUTE).replace(/\/+$/, '')
+		const token = this.config.httpToken
+		const scope = this.config.httpScope
+		const maxBodyBytes = this.config.httpMaxBodyBytes ?? DEFAULT_HTTP_MAX_BODY_BYTES
+		if (!token) {
+			this.ctx.logger.info(`[meme-worker] POST ${base}/:key disabled: no httpToken configured`)
+		}
+
+		this.ctx.honoService.modifyApp((app) => {
+			app.use(`${base}/*`, async (c, next) => {
+				if (token && c.req.header('authorization') !== `Bearer ${token}`) {
+					return c.json({ error: 'unauthorized' }, 401)
+				}
+				await this.loadMemeLib()
+				return next()
+			})
+
+			app.get(`${base}/keys`, (c) => c.json(this.listKeys({ scope }).filter((key) => this.health.isUsable(key))))
+
+			app.get(`${base}/search`, (c) => {
+				const query = c.req.query('query')?.trim()
+				if (!query) return c.json({ error: 'query is required' }, 400)
+				const includeTags = c.req.query('include_tags') !== 'false'
+				return c.json(this.search(query, includeTags, { scope }).filter((key) => this.health.isUsable(key)))
+			})
+
+			app.get(`${base}/:key/info`, (c) => {
+				const key = c.req.param('key')
+				const info = this.policy.isAllowed(key, scope) && this.health.isUsable(key) ? this.getMemeInfo(key) : null
+				if (!info) return c.json({ error: 'meme not found' }, 404)
+				return c.json(serializeMemeInfo(info))
+			})
+
+			if (token) {
+				app.post(`${base}/:key`, async (c) => {
+					const key = c.req.param('key')
+					if (!this.getMemeInfo(key)) return c.json({ error: 'meme not found' }, 404)
+					if (!this.policy.isAllowed(key, scope)) return c.json({ error: 'meme is disabled' }, 403)
+					if (!this.health.isUsable(key)) return c.json({ error: 'meme resources are unavailable' }, 503)
+
+					let request: HttpGenerateRequest
+					try {
+						request = await parseGenerateForm(await readFormData(c.req.raw, maxBodyBytes))
+					} catch (err) {
+						if (err instanceof HttpRequestError) return c.json({ error: err.message }, err.status)
+						return c.json({ error: 'invalid multipart body' }, 400)
+					}
+					let res: MemeImageResult
+					try {
+						res = await this.generateFrom({ key, ...request })
+					} catch (err) {
+						this.ctx.logger.warn(err, `[meme-worker] HTTP generate failed for ${key}`)
+						return c.json({ error: 'generate failed' }, 500)
+					}
+					if (!res.ok) return c.json({ error: res.message }, res.internal ? 500 : 400)
+					return new Response(res.buffer, {
+						status: 200,
+						headers: { 'Content-Type': res.mime, 'Content-Length': String(res.buffer.byteLength) },
+					})
+				})
+			}
+		})
+	}
+
+	private async buildSearchIndex() {
+		const lib = await this.loadMemeLib()
+		const infos = lib.getMemes().map((meme) => meme.info)
+		const tools: MemeSearchTools = {}
+		try {
+			const { pinyin } = await import('pluxel-plugin-napi-rs/pinyin')
+			// PINYIN_STYLE 是 const enum，Plain = 0
+			tools.pinyin = (text) => pinyin(text, { style: 0 as PINYIN_STYLE, segment: true }) as string[]
+		} catch (err) {
+			this.ctx.logger.warn(err, '[meme-worker] pinyin unavailable, search falls back to plain text')
+		}
+		try {
+			const { Jieba } = await import('pluxel-plugin-napi-rs/jieba')
+			// vendor 包不含默认词典，以表情关键词作为词典，使查询按已知关键词切分
+			const jieba = new Jieba()
+			const words = new Set(infos.flatMap((info) => info.keywords).filter((word) => !/\s/u.test(word)))
+			jieba.loadDict(Buffer.from([...words].map((word) => `${word} 1000`).join('\n')))
+			tools.cut = (text) => jieba.cutForSearch(text, true)
+		} catch (err) {
+			this.ctx.logger.warn(err, '[meme-worker] jieba unavailable, search skips word segmentation')
+		}
+		this.searchIndex = createSearchIndex(infos, tools)
+	}
+
+	private async renderToolImage(call: MemeToolCall): Promise<MemeToolImageResult> {
+		return toToolImageResult(call.op, await this.run<MemeToolWorkerResult>({ kind: 'tool', call }))
+	}
+
+	private async run<T extends MemeRenderResult | MemeToolWorkerResult | MemeHealthWorkerResult>(job: MemeWorkerJob): Promise<T> {
 		await this.ensurePool()
 		return this.pool!.run(job)
 	}
 
+	private async runHealth(keys: string[]): Promise<MemeHealthWorkerResult> {
+		await this.ensurePool()
+		const job: MemeWorkerJob = { kind: 'health', keys }
+		return this.healthPool!.run(job)
+	}
+
 	private async loadMemeLib(): Promise<MemeModule> {
 		if (this.memeLib) return this.memeLib
 		if (!this.memeLibPromise) {
@@ -165,18 +682,9 @@ export class MemeWorker extends BasePlugin {
 
 	private ensureReady(): Promise<void> {
 		if (!this.readyPromise) {
-			// Force native binding to download and resources to be validated once, before workers spawn
+			// Force native binding to load once before workers spawn; resources are downloaded by the health pool
 			this.readyPromise = (async () => {
 				const lib = await this.loadMemeLib()
-				const check =
-					typeof lib.Resources?.checkResources === 'function'
-						? lib.Resources.checkResources
-						: typeof (lib as any).checkResources === 'function'
-							? (lib as any).checkResources
-							: null
-				if (check) {
-					check()
-				}
 				if (typeof lib.getVersion === 'function') {
 					lib.getVersion()
 				}
@@ -202,6 +710,13 @@ export class MemeWorker extends BasePlugin {
 				concurrentTasksPerWorker: 1,
 				isolateWorkers: false,
 			})
+			this.healthPool = new Tinypool({
+				filename: this.workerEntrypoint,
+				maxThreads: 1,
+				idleTimeout,
+				concurrentTasksPerWorker: 1,
+				isolateWorkers: false,
+			})
 		})().finally(() => {
 			this.poolInitPromise = null
 		})
@@ -210,4 +725,92 @@ export class MemeWorker extends BasePlugin {
 	}
 }
 
-export type { MemeRenderPayload, MemeRenderResult, MemeImageResult, MemeMetadata, MemeResolveResult } from './types'
+export class MemeWorkerRpc extends RpcTarget {
+	constructor(private readonly plugin: MemeWorker) {
+		super()
+	}
+
+	policies() {
+		return this.plugin.listPolicies()
+	}
+
+	getPolicy(scope?: string) {
+		return this.plugin.getPolicy(scope)
+	}
+
+	updatePolicy(scope: string, patch: { allow?: string[]; block?: string[] }) {
+		return this.plugin.updatePolicy(scope, patch)
+	}
+
+	setAlias(scope: string, alias: string, key: string) {
+		return this.plugin.setAlias(scope, alias, key)
+	}
+
+	removeAlias(scope: string, alias: string) {
+		return this.plugin.removeAlias(scope, alias)
+	}
+
+	removePolicy(scope: string) {
+		return this.plugin.removePolicy(scope)
+	}
+
+	catalog() {
+		return this.plugin.catalog()
+	}
+
+	health() {
+		return this.plugin.getHealth()
+	}
+
+	recheckHealth() {
+		return this.plugin.checkHealth()
+	}
+}
+
+declare module '@pluxel/hmr/services' {
+	interface RpcExtensions {
+		MemeWorker: MemeWorkerRpc
+	}
+
+	interface SseEvents {
+		MemeWorker: { type: 'health'; health: MemeHealthSnapshot }
+	}
+}
+
+export type {
+	MemeCommandContext,
+	MemeCommandFailureReason,
+	MemeCommandParseResult,
+	MemeImageRef,
+} from './command'
+export { DEFAULT_IMAGE_LIMITS, MemeImageError } from './images'
+export { validateMemeOptions, type MemeOptionsValidation } from './options'
+export { GLOBAL_SCOPE } from './policy'
+export { EXACT_MATCH_SCORE } from './search'
+export { detectImageMime, type MemeTools } from './tools'
+export type {
+	MemeRenderPayload,
+	MemeRenderResult,
+	MemeImageResult,
+	MemeMetadata,
+	MemeGenerateFromPayload,
+	MemeHealthIssue,
+	MemeHealthSnapshot,
+	MemeHealthStatus,
+	MemeImageInfo,
+	MemeImageLimits,
+	MemeImageSource,
+	MemeListOptions,
+	MemeListSortBy,
+	MemeOptionInput,
+	MemeResolveResult,
+	MemeScopeOptions,
+	MemeScopePolicy,
+	MemeSearchResult,
+	MemeStatisticsKind,
+	MemeToolFramesResult,
+	MemeToolImageResult,
+	MemeToolInfoResult,
+	MemeToolOp,
+	MemeUsageQuery,
+} from './types'
@@ -0,0 +1,82 @@
+import type { MemeInfo, MemeOption, OptionValue } from 'pluxel-plugin-napi-rs/meme-generator'
+
+import type { MemeOptionInput } from './types'
+
+export type MemeOptionsValidation =
+	| { ok: true; values: Record<string, OptionValue> }
+	| { ok: false; message: string }
+
+function describeRange(minimum?: number, maximum?: number) {
+	if (minimum !== undefined && maximum !== undefined) return `在 ${minimum}~${maximum} 之间`
+	if (minimum !== undefined) return `不小于 ${minimum}`
+	return `不大于 ${maximum}`
+}
+
+/**
+ * 按单个 MemeOption 声明校验并转换为原生 OptionValue；
+ * 字符串形式的布尔值/数字会被接受（来自命令行或表单），返回 string 表示错误信息。
+ */
+function convertOption(option: MemeOption, raw: MemeOptionInput): OptionValue | string {
+	const { name } = option.field0
+	switch (option.type) {
+		case 'Boolean': {
+			if (typeof raw === 'boolean') return { type: 'Boolean', field0: raw }
+			const text = String(raw).trim().toLowerCase()
+			if (['true', '1', 'yes', 'on'].includes(text)) return { type: 'Boolean', field0: true }
+			if (['false', '0', 'no', 'off'].includes(text)) return { type: 'Boolean', field0: false }
+			return `选项 ${name} 需要布尔值（true/false），实际为：${String(raw)}`
+		}
+		case 'String': {
+			if (typeof raw !== 'string') return `选项 ${name} 需要文本，实际为：${String(raw)}`
+			const { choices } = option.field0
+			if (choices?.length && !choices.includes(raw)) {
+				return `选项 ${name} 只能是 ${choices.join('、')} 之一，实际为：${raw}`
+			}
+			return { type: 'String', field0: raw }
+		}
+		case 'Integer':
+		case 'Float': {
+			const value = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() ? Number(raw) : Number.NaN
+			const integer = option.type === 'Integer'
+			if (!Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+				return `选项 ${name} 需要${integer ? '整数' : '数字'}，实际为：${String(raw)}`
+			}
+			const { minimum, maximum } = option.field0
+			if ((minimum !== undefined && value < minimum) || (maximum !== undefined && value > maximum)) {
+				return `选项 ${name} 需${describeRange(minimum, maximum)}，实际为：${value}`
+			}
+			return { type: option.type, field0: value }
+		}
+	}
+}
+
+/**
+ * 对照 MemeInfo.params.options 校验调用方传入的选项；未声明的选项视为错误，
+ * 未传入的选项交给生成器使用默认值。
+ */
+export function validateMemeOptions(
+	info: MemeInfo,
+	options: Record<string, MemeOptionInput> | undefined,
+): MemeOptionsValidation {
+	const values: Record<string, OptionValue> = {}
+	if (!options) return { ok: true, values }
+
+	const declared = new Map(info.params.options.map((option) => [option.field0.name, option]))
+	for (const [name, raw] of Object.entries(options)) {
+		if (raw === undefined) continue
+		const option = declared.get(name)
+		if (!option) {
+			const available = [...declared.keys()]
+			return {
+				ok: false,
+				message: available.length
+					? `模板 ${info.key} 不支持选项 ${name}，可用选项：${available.join('、')}`
+					: `模板 ${info.key} 没有可配置的选项（收到 ${name}）`,
+			}
+		}
+		const converted = convertOption(option, raw)
+		if (typeof converted === 'string') return { ok: false, message: converted }
+		values[name] = converted
+	}
+	return { ok: true, values }
+}
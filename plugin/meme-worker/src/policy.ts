@@ -0,0 +1,99 @@
+import type { Collection } from '@pluxel/hmr/signaldb'
+
+import type { MemeScopePolicy } from './types'
+
+/** 全局策略的 scope id，对所有 scope 生效 */
+export const GLOBAL_SCOPE = 'global'
+
+function emptyPolicy(id: string): MemeScopePolicy {
+	return { id, allow: [], block: [], aliases: {}, updatedAt: 0 }
+}
+
+function unique(keys: string[]) {
+	return [...new Set(keys.map((key) => key.trim()).filter(Boolean))]
+}
+
+/**
+ * 表情的启用/禁用名单与别名。全局与 scope 两层依次过滤：
+ * 在任一层 block 中即不可见；某层 allow 非空时只允许其中的 key。
+ * 别名在 scope 层优先于全局。策略常驻内存，供同步的 listKeys/search 使用。
+ */
+export class MemePolicy {
+	private readonly policies = new Map<string, MemeScopePolicy>()
+
+	constructor(private readonly collection: Collection<MemeScopePolicy, string, MemeScopePolicy>) {}
+
+	async load() {
+		this.policies.clear()
+		for (const policy of await this.collection.find()) {
+			this.policies.set(policy.id, { ...policy })
+		}
+	}
+
+	list(): MemeScopePolicy[] {
+		return [...this.policies.values()].map((policy) => ({ ...policy }))
+	}
+
+	get(scope = GLOBAL_SCOPE): MemeScopePolicy {
+		const policy = this.policies.get(scope)
+		return policy ? { ...policy } : emptyPolicy(scope)
+	}
+
+	isAllowed(key: string, scope?: string): boolean {
+		const layers = [this.policies.get(GLOBAL_SCOPE), scope ? this.policies.get(scope) : undefined]
+		return layers.every(
+			(policy) => !policy || (!policy.block.includes(key) && (!policy.allow.length || policy.allow.includes(key))),
+		)
+	}
+
+	/** 合并后的别名表，scope 覆盖全局 */
+	aliases(scope?: string): Record<string, string> {
+		return {
+			...this.policies.get(GLOBAL_SCOPE)?.aliases,
+			...(scope && scope !== GLOBAL_SCOPE ? this.policies.get(scope)?.aliases : undefined),
+		}
+	}
+
+	resolveAlias(identifier: string, scope?: string): string | undefined {
+		return this.aliases(scope)[identifier]
+	}
+
+	async update(scope: string, patch: { allow?: string[]; block?: string[] }): Promise<MemeScopePolicy> {
+		const current = this.get(scope)
+		return this.save({
+			...current,
+			allow: patch.allow ? unique(patch.allow) : current.allow,
+			block: patch.block ? unique(patch.block) : current.block,
+		})
+	}
+
+	async setAlias(scope: string, alias: string, key: string): Promise<MemeScopePolicy> {
+		const current = this.get(scope)
+		return this.save({ ...current, aliases: { ...current.aliases, [alias]: key } })
+	}
+
+	async removeAlias(scope: string, alias: string): Promise<MemeScopePolicy> {
+		const current = this.get(scope)
+		const { [alias]: _removed, ...aliases } = current.aliases
+		return this.save({ ...current, aliases })
+	}
+
+	async remove(scope: string): Promise<boolean> {
+		if (!this.policies.delete(scope)) return false
+		await this.collection.removeOne({ id: scope })
+		return true
+	}
+
+	private async save(policy: MemeScopePolicy): Promise<MemeScopePolicy> {
+		const next = { ...policy, updatedAt: Date.now() }
+		const exists = this.policies.has(next.id)
+		this.policies.set(next.id, next)
+		if (exists) {
+			const { id, ...rest } = next
+			await this.collection.updateOne({ id }, { $set: rest })
+		} else {
+			await this.collection.insert(next)
+		}
+		return { ...next }
+	}
+}
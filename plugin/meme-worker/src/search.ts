@@ -0,0 +1,143 @@
+import type { MemeInfo } from 'pluxel-plugin-napi-rs/meme-generator'
+
+import type { MemeSearchResult } from './types'
+
+/** 原生拼音与分词能力，加载失败时对应的匹配方式不可用 */
+export interface MemeSearchTools {
+	/** 汉字转不带声调的拼音，每个字一项 */
+	pinyin?: (text: string) => string[]
+	/** 搜索模式分词 */
+	cut?: (text: string) => string[]
+}
+
+type TermSource = 'key' | 'keyword' | 'tag' | 'shortcut'
+
+interface IndexedTerm {
+	text: string
+	source: TermSource
+	pinyin: string
+	initials: string
+	tokens: Set<string>
+}
+
+export interface MemeSearchIndex {
+	entries: { key: string; terms: IndexedTerm[] }[]
+	tools: MemeSearchTools
+}
+
+/** 关键词或 key 完全匹配的分数，resolveMeme 以此判断是否可直接命中 */
+export const EXACT_MATCH_SCORE = 100
+
+// 同一匹配方式下各来源的权重，关键词最可信，tag 最宽泛
+const SOURCE_WEIGHT: Record<TermSource, number> = { key: 1, keyword: 1, shortcut: 0.8, tag: 0.5 }
+
+const HAN = /\p{Script=Han}/u
+const HAN_RUNS = /(\p{Script=Han}+)/u
+
+function normalize(text: string) {
+	return text.toLowerCase().replace(/\s+/gu, '')
+}
+
+/** 仅对汉字转换拼音，其余字符原样保留（小写） */
+function toPinyin(text: string, tools: MemeSearchTools): { full: string; initials: string } {
+	if (!tools.pinyin || !HAN.test(text)) return { full: '', initials: '' }
+	const syllables: string[] = []
+	for (const part of text.split(HAN_RUNS)) {
+		if (!part) continue
+		if (HAN.test(part)) syllables.push(...tools.pinyin(part).map((s) => s.toLowerCase()))
+		else syllables.push(normalize(part))
+	}
+	return { full: syllables.join(''), initials: syllables.map((s) => s[0] ?? '').join('') }
+}
+
+function tokenize(text: string, tools: MemeSearchTools): Set<string> {
+	if (!tools.cut || !HAN.test(text)) return new Set()
+	return new Set(tools.cut(text).map(normalize).filter(Boolean))
+}
+
+function indexTerm(text: string, source: TermSource, tools: MemeSearchTools): IndexedTerm {
+	const { full, initials } = toPinyin(text, tools)
+	return { text: normalize(text), source, pinyin: full, initials, tokens: tokenize(text, tools) }
+}
+
+/** shortcut 优先使用 humanized，否则去掉正则语法后的字面部分 */
+function shortcutText(shortcut: MemeInfo['shortcuts'][number]) {
+	return shortcut.humanized ?? shortcut.pattern.replace(/\(\?P?<[^>]+>[^)]*\)|[\\^$.*+?()[\]{}|]/gu, '')
+}
+
+export function createSearchIndex(infos: MemeInfo[], tools: MemeSearchTools = {}): MemeSearchIndex {
+	const entries = infos.map((info) => {
+		const terms: IndexedTerm[] = [indexTerm(info.key, 'key', tools)]
+		for (const keyword of info.keywords) terms.push(indexTerm(keyword, 'keyword', tools))
+		for (const tag of info.tags) terms.push(indexTerm(tag, 'tag', tools))
+		for (const shortcut of info.shortcuts) {
+			const text = shortcutText(shortcut)
+			if (text.trim()) terms.push(indexTerm(text, 'shortcut', tools))
+		}
+		return { key: info.key, terms: terms.filter((term) => term.text) }
+	})
+	return { entries, tools }
+}
+
+function scoreText(term: string, query: string, exact: number, prefix: number, partial: number) {
+	if (!term || !query) return 0
+	if (term === query) return exact
+	if (term.startsWith(query)) return prefix
+	if (term.includes(query)) return partial
+	return 0
+}
+
+function scoreTerm(
+	term: IndexedTerm,
+	query: { text: string; pinyin: string; tokens: Set<string>; latin: boolean },
+): number {
+	let score = scoreText(term.text, query.text, EXACT_MATCH_SCORE, 80, 60)
+	// 输入本身是拼音（momo、mm）；汉字同音（膜膜 → momo）排在字面匹配之后
+	score = Math.max(
+		score,
+		query.latin
+			? Math.max(scoreText(term.pinyin, query.text, 70, 50, 35), scoreText(term.initials, query.text, 45, 30, 0))
+			: scoreText(term.pinyin, query.pinyin, 55, 40, 25),
+	)
+	if (query.tokens.size && term.tokens.size) {
+		let hits = 0
+		for (const token of query.tokens) {
+			// 句子中出现完整关键词（我要摸摸你 → 摸摸）
+			if (token === term.text) score = Math.max(score, 50)
+			if (term.tokens.has(token) || term.text.includes(token)) hits++
+		}
+		score = Math.max(score, Math.round((40 * hits) / query.tokens.size))
+	}
+	return score * SOURCE_WEIGHT[term.source]
+}
+
+/**
+ * 按关键词、拼音全拼/首字母与分词结果打分，返回分数降序的结果；
+ * 同分时按 key 排序以保证稳定。
+ */
+export function searchIndex(
+	index: MemeSearchIndex,
+	input: string,
+	options: { includeTags?: boolean; limit?: number } = {},
+): MemeSearchResult[] {
+	const { includeTags = true, limit } = options
+	const text = normalize(input)
+	if (!text) return []
+	const query = {
+		text,
+		pinyin: toPinyin(text, index.tools).full,
+		tokens: tokenize(input, index.tools),
+		latin: /^[a-z]+$/u.test(text),
+	}
+
+	const results: MemeSearchResult[] = []
+	for (const entry of index.entries) {
+		let score = 0
+		for (const term of entry.terms) {
+			if (includeTags || term.source !== 'tag') score = Math.max(score, scoreTerm(term, query))
+		}
+		if (score > 0) results.push({ key: entry.key, score })
+	}
+	results.sort((a, b) => b.score - a.score || a.key.localeCompare(b.key))
+	return limit === undefined ? results : results.slice(0, limit)
+}
@@ -0,0 +1,80 @@
+import { Buffer } from 'node:buffer'
+
+import type { Tools } from 'pluxel-plugin-napi-rs/meme-generator'
+
+import type {
+	MemeToolCall,
+	MemeToolFramesResult,
+	MemeToolImageResult,
+	MemeToolInfoResult,
+	MemeToolOp,
+	MemeToolWorkerResult,
+} from './types'
+
+type ImageInput = Uint8Array
+
+/** 按文件头识别生成结果的格式，无法识别时按 PNG 处理 */
+export function detectImageMime(buffer: Uint8Array): string {
+	const bytes = Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+	if (bytes.length >= 6 && bytes.toString('ascii', 0, 4) === 'GIF8') return 'image/gif'
+	if (bytes.length >= 8 && bytes.readUInt32BE(0) === 0x89504e47) return 'image/png'
+	if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg'
+	if (bytes.length >= 12 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') {
+		return 'image/webp'
+	}
+	return 'image/png'
+}
+
+export function toToolImageResult(op: MemeToolOp, res: MemeToolWorkerResult): MemeToolImageResult {
+	if (!res.ok) return res
+	if (res.kind !== 'image') {
+		return { ok: false, message: `图片处理返回了意外的结果：${res.kind}`, durationMs: res.durationMs }
+	}
+	const buffer = Buffer.from(res.buffer)
+	return { ok: true, buffer, mime: detectImageMime(buffer), durationMs: res.durationMs, meta: { op } }
+}
+
+/**
+ * Tools.ImageOperations 的类型化封装，所有操作都在 worker 中执行
+ */
+export function createMemeTools(run: (call: MemeToolCall) => Promise<MemeToolWorkerResult>) {
+	const image = async (call: MemeToolCall) => toToolImageResult(call.op, await run(call))
+
+	return {
+		async inspect(input: ImageInput): Promise<MemeToolInfoResult> {
+			const res = await run({ op: 'inspect', image: input })
+			if (!res.ok || res.kind === 'info') return res
+			return { ok: false, message: `图片处理返回了意外的结果：${res.kind}`, durationMs: res.durationMs }
+		},
+		flipHorizontal: (input: ImageInput) => image({ op: 'flipHorizontal', image: input }),
+		flipVertical: (input: ImageInput) => image({ op: 'flipVertical', image: input }),
+		grayscale: (input: ImageInput) => image({ op: 'grayscale', image: input }),
+		invert: (input: ImageInput) => image({ op: 'invert', image: input }),
+		rotate: (input: ImageInput, options: Tools.ImageOperations.RotateOptions = {}) =>
+			image({ op: 'rotate', image: input, options }),
+		resize: (input: ImageInput, options: Tools.ImageOperations.ResizeOptions) =>
+			image({ op: 'resize', image: input, options }),
+		crop: (input: ImageInput, options: Tools.ImageOperations.CropOptions) => image({ op: 'crop', image: input, options }),
+		mergeHorizontal: (inputs: ImageInput[]) => image({ op: 'mergeHorizontal', images: inputs }),
+		mergeVertical: (inputs: ImageInput[]) => image({ op: 'mergeVertical', images: inputs }),
+		gifReverse: (input: ImageInput) => image({ op: 'gifReverse', image: input }),
+		gifMerge: (inputs: ImageInput[], options: Tools.ImageOperations.GifMergeOptions = {}) =>
+			image({ op: 'gifMerge', images: inputs, options }),
+		gifChangeDuration: (input: ImageInput, options: Tools.ImageOperations.GifChangeDurationOptions) =>
+			image({ op: 'gifChangeDuration', image: input, options }),
+		async gifSplit(input: ImageInput): Promise<MemeToolFramesResult> {
+			const res = await run({ op: 'gifSplit', image: input })
+			if (!res.ok) return res
+			if (res.kind !== 'images') {
+				return { ok: false, message: `图片处理返回了意外的结果：${res.kind}`, durationMs: res.durationMs }
+			}
+			const frames = res.buffers.map((data) => {
+				const buffer = Buffer.from(data)
+				return { buffer, mime: detectImageMime(buffer) }
+			})
+			return { ok: true, frames, durationMs: res.durationMs }
+		},
+	}
+}
+
+export type MemeTools = ReturnType<typeof createMemeTools>
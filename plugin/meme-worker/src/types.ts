@@ -1,23 +1,76 @@
 import type { Buffer } from 'node:buffer'
-import type { Image as MemeImage, MemeInfo } from 'pluxel-plugin-napi-rs/meme-generator'
+import type { Image as MemeImage, MemeInfo, OptionValue, Tools } from 'pluxel-plugin-napi-rs/meme-generator'
+
+/** 选项的原始值；字符串形式的布尔值/数字会按模板声明转换 */
+export type MemeOptionInput = boolean | string | number
 
 export interface MemeRenderPayload {
 	key: string
 	images: MemeImage[]
 	texts: string[]
+	/** 按 MemeInfo.params.options 中的 name 传入，发送到 worker 前校验 */
+	options?: Record<string, MemeOptionInput>
+}
+
+/** 发送给 worker 的 payload，options 已转换为原生 OptionValue */
+export interface MemeJobPayload extends Omit<MemeRenderPayload, 'options'> {
+	options: Record<string, OptionValue>
 }
 
-export type MemeWorkerJob = { kind: 'meme'; payload: MemeRenderPayload }
+/** Tools.ImageOperations 的一次调用；image/images 为编码后的图片字节 */
+export type MemeToolCall =
+	| {
+			op: 'inspect' | 'flipHorizontal' | 'flipVertical' | 'grayscale' | 'invert' | 'gifSplit' | 'gifReverse'
+			image: Uint8Array
+	  }
+	| { op: 'rotate'; image: Uint8Array; options: Tools.ImageOperations.RotateOptions }
+	| { op: 'resize'; image: Uint8Array; options: Tools.ImageOperations.ResizeOptions }
+	| { op: 'crop'; image: Uint8Array; options: Tools.ImageOperations.CropOptions }
+	| { op: 'gifChangeDuration'; image: Uint8Array; options: Tools.ImageOperations.GifChangeDurationOptions }
+	| { op: 'mergeHorizontal' | 'mergeVertical'; images: Uint8Array[] }
+	| { op: 'gifMerge'; images: Uint8Array[]; options: Tools.ImageOperations.GifMergeOptions }
+	| { op: 'renderMemeList'; params: Tools.RenderMemeListParams }
+	| { op: 'renderMemeStatistics'; params: Tools.RenderMemeStatisticsParams }
+
+export type MemeToolOp = MemeToolCall['op']
+
+export type MemeImageInfo = Tools.ImageOperations.ImageInfo
+
+export type MemeWorkerJob =
+	| { kind: 'meme'; payload: MemeJobPayload }
+	| { kind: 'tool'; call: MemeToolCall }
+	| { kind: 'health'; keys: string[] }
+
+/** internal 表示 worker 异常、模板资源缺失等服务端故障，而不是请求本身有误 */
+export type MemeFailure = { ok: false; message: string; durationMs: number; internal?: boolean }
 
 export type MemeWorkerResult =
 	| { ok: true; buffer: ArrayBuffer; durationMs: number; meta: { key: string } }
-	| { ok: false; message: string; durationMs: number }
+	| MemeFailure
+
+export type MemeToolWorkerResult =
+	| { ok: true; kind: 'image'; buffer: ArrayBuffer; durationMs: number }
+	| { ok: true; kind: 'images'; buffers: ArrayBuffer[]; durationMs: number }
+	| { ok: true; kind: 'info'; info: MemeImageInfo; durationMs: number }
+	| MemeFailure
+
+export type MemeToolImageResult =
+	| { ok: true; buffer: Buffer; mime: string; durationMs: number; meta: { op: MemeToolOp } }
+	| MemeFailure
+
+export type MemeToolFramesResult =
+	| { ok: true; frames: { buffer: Buffer; mime: string }[]; durationMs: number }
+	| MemeFailure
+
+export type MemeToolInfoResult =
+	| { ok: true; info: MemeImageInfo; durationMs: number }
+	| MemeFailure
 
 export type MemeRenderResult = MemeWorkerResult
 
 export type MemeImageResult =
 	| { ok: true; buffer: Buffer; mime: string; durationMs: number; meta: { key: string } }
-	| { ok: false; message: string; durationMs: number }
+	| MemeFailure
 
 export type MemeMetadata = MemeInfo
 
@@ -25,3 +78,115 @@ export type MemeResolveResult =
 	| { kind: 'exact'; info: MemeMetadata }
 	| { kind: 'choices'; matches: string[] }
 	| null
+
+export type MemeListSortBy = 'key' | 'keywords' | 'keywords-pinyin' | 'date-created' | 'date-modified'
+
+export interface MemeListOptions {
+	/** 按该 scope 的策略隐藏不可用的表情 */
+	scope?: string
+	sortBy?: MemeListSortBy
+	reverse?: boolean
+	/** 只列出带有任一 tag 的表情 */
+	tags?: string[]
+	exclude?: string[]
+	/** 显式标记；与下面的自动规则合并 */
+	disabled?: string[]
+	hot?: string[]
+	new?: string[]
+	/** dateCreated 在最近 N 天内的标记为 new，默认 30，0 关闭 */
+	newWithinDays?: number
+	/** 使用次数前 N 的标记为 hot，默认 10，0 关闭 */
+	hotTop?: number
+	/** 原生模板，如 `{index}. {keywords}` */
+	textTemplate?: string
+	addCategoryIcon?: boolean
+}
+
+/** meme：按表情统计次数；time：按天统计总次数 */
+export type MemeStatisticsKind = 'meme' | 'time'
+
+export interface MemeUsageQuery {
+	/** 只统计最近 N 天，默认全部 */
+	days?: number
+	keys?: string[]
+}
+
+export interface MemeUsageEntry {
+	/** `${key}:${day}` */
+	id: string
+	key: string
+	/** 本地日期 YYYY-MM-DD */
+	day: string
+	count: number
+	updatedAt: number
+}
+
+/** 某个 scope（如群号）的表情策略；id 为 `global` 时对所有 scope 生效 */
+export interface MemeScopePolicy {
+	id: string
+	/** 非空时只允许其中的 key */
+	allow: string[]
+	block: string[]
+	/** 别名 → key */
+	aliases: Record<string, string>
+	updatedAt: number
+}
+
+export interface MemeScopeOptions {
+	scope?: string
+}
+
+/** generateFrom 的图片来源；name 缺省时取 URL 或文件名 */
+export type MemeImageSource =
+	| { url: string; name?: string }
+	| { path: string; name?: string }
+	| { buffer: Uint8Array; name?: string }
+	| { name: string; data: Uint8Array }
+
+export interface MemeImageLimits {
+	/** 单张图片的最大字节数 */
+	maxBytes: number
+	/** 单张图片的下载超时 */
+	timeoutMs: number
+	/** 宽 × 高上限，由 Tools.inspect 读取尺寸后判断 */
+	maxPixels: number
+	/** 可下载的主机，为空时不限制（仍受 denyHosts 约束）；支持 `*.example.com` */
+	allowHosts: string[]
+	denyHosts: string[]
+	/** 允许访问解析到回环、私有或链路本地地址的主机 */
+	allowPrivateNetwork: boolean
+	/** 允许 `{ path }` 读取本地文件 */
+	allowLocalFiles: boolean
+}
+
+export interface MemeGenerateFromPayload extends Omit<MemeRenderPayload, 'images'> {
+	images: MemeImageSource[]
+}
+
+/** downloading：首次检查尚未完成；degraded：部分表情缺少资源 */
+export type MemeHealthStatus = 'downloading' | 'ready' | 'degraded'
+
+export interface MemeHealthIssue {
+	key: string
+	message: string
+	/** ImageAssetMissing 时缺失的资源路径 */
+	missing?: string
+}
+
+export interface MemeHealthSnapshot {
+	status: MemeHealthStatus
+	checking: boolean
+	total: number
+	usable: number
+	broken: MemeHealthIssue[]
+	checkedAt: number | null
+}
+
+export type MemeHealthWorkerResult =
+	| { ok: true; issues: MemeHealthIssue[]; durationMs: number }
+	| { ok: false; message: string; durationMs: number }
+
+export interface MemeSearchResult {
+	key: string
+	score: number
+}
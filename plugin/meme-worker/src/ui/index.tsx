@@ -0,0 +1,469 @@
+import {
+	Alert,
+	Badge,
+	Button,
+	Group,
+	Loader,
+	MultiSelect,
+	Paper,
+	Select,
+	Stack,
+	Table,
+	Text,
+	TextInput,
+	Title,
+} from '@mantine/core'
+import {
+	IconAlertCircle,
+	IconHeartbeat,
+	IconPlus,
+	IconReload,
+	IconShieldCheck,
+	IconTrash,
+} from '@tabler/icons-react'
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+	definePluginUIModule,
+	type PluginExtensionContext,
+	hmrWebClient,
+	rpcErrorMessage,
+} from '@pluxel/hmr/web'
+import type { MemeHealthSnapshot, MemeHealthStatus, MemeScopePolicy } from '../meme-worker'
+
+const GLOBAL_SCOPE = 'global'
+
+type CatalogEntry = { key: string; keywords: string[] }
+
+type RpcClient = {
+	policies: () => Promise<MemeScopePolicy[]>
+	catalog: () => Promise<CatalogEntry[]>
+	updatePolicy: (scope: string, patch: { allow?: string[]; block?: string[] }) => Promise<MemeScopePolicy>
+	setAlias: (scope: string, alias: string, key: string) => Promise<MemeScopePolicy>
+	removeAlias: (scope: string, alias: string) => Promise<MemeScopePolicy>
+	removePolicy: (scope: string) => Promise<boolean>
+	health: () => Promise<MemeHealthSnapshot>
+	recheckHealth: () => Promise<MemeHealthSnapshot>
+}
+
+const rpc = (): RpcClient => (hmrWebClient.rpc as any).MemeWorker as RpcClient
+
+function emptyPolicy(id: string): MemeScopePolicy {
+	return { id, allow: [], block: [], aliases: {}, updatedAt: 0 }
+}
+
+function useMemePolicies() {
+	const [policies, setPolicies] = useState<MemeScopePolicy[]>([])
+	const [catalog, setCatalog] = useState<CatalogEntry[]>([])
+	const [loading, setLoading] = useState(true)
+	const [error, setError] = useState<string | null>(null)
+
+	const refresh = useCallback(async () => {
+		setLoading(true)
+		try {
+			const [nextPolicies, nextCatalog] = await Promise.all([rpc().policies(), rpc().catalog()])
+			setPolicies(nextPolicies)
+			setCatalog(nextCatalog)
+			setError(null)
+		} catch (err) {
+			setError(rpcErrorMessage(err, '无法加载表情策略'))
+		} finally {
+			setLoading(false)
+		}
+	}, [])
+
+	useEffect(() => {
+		void refresh()
+	}, [refresh])
+
+	return { policies, catalog, loading, error, setError, refresh }
+}
+
+const STATUS_LABEL: Record<MemeHealthStatus, { label: string; color: string }> = {
+	downloading: { label: '资源准备中', color: 'blue' },
+	ready: { label: '全部可用', color: 'teal' },
+	degraded: { label: '部分缺失', color: 'orange' },
+}
+
+function useMemeHealth() {
+	const [health, setHealth] = useState<MemeHealthSnapshot | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		rpc()
+			.health()
+			.then(setHealth)
+			.catch((err) => setError(rpcErrorMessage(err, '无法加载资源状态')))
+
+		const sse = hmrWebClient.createSse({ namespaces: ['MemeWorker'] })
+		const off = sse.ns('MemeWorker').on((msg) => {
+			const payload = msg.payload as { type?: string; health?: MemeHealthSnapshot } | undefined
+			if (payload?.type === 'health' && payload.health) {
+				setHealth(payload.health)
+			}
+		}, ['health'])
+		return () => {
+			off()
+			sse.close()
+		}
+	}, [])
+
+	return { health, error, setError }
+}
+
+function MemeHealthTab({ ctx }: { ctx: PluginExtensionContext }) {
+	const { health, error, setError } = useMemeHealth()
+
+	const handleRecheck = async () => {
+		try {
+			await rpc().recheckHealth()
+		} catch (err) {
+			setError(rpcErrorMessage(err, '重新检查失败'))
+		}
+	}
+
+	const status = health ? STATUS_LABEL[health.status] : null
+	return (
+		<Stack gap="md">
+			{error ? (
+				<Alert icon={<IconAlertCircle size={16} />} color="red">
+					{error}
+				</Alert>
+			) : null}
+			<Paper withBorder p="md" radius="md">
+				<Group justify="space-between" align="flex-start">
+					<Stack gap={6}>
+						<Group gap="xs">
+							<Title order={4}>资源状态</Title>
+							{status ? (
+								<Badge color={status.color} variant="light" leftSection={<IconHeartbeat size={14} />}>
+									{status.label}
+								</Badge>
+							) : null}
+						</Group>
+						<Text size="sm" c="dimmed">
+							{health ? `可用 ${health.usable}/${health.total}` : '加载中…'}
+							{health?.checkedAt ? `，上次检查：${new Date(health.checkedAt).toLocaleString()}` : ''}
+						</Text>
+						<Text size="xs" c="dimmed">
+							缺少资源的表情在恢复前不会被解析到，恢复后自动重新启用
+						</Text>
+					</Stack>
+					<Button
+						size="sm"
+						variant="light"
+						loading={health?.checking}
+						leftSection={<IconReload size={14} />}
+						onClick={() => void handleRecheck()}
+					>
+						重新检查
+					</Button>
+				</Group>
+			</Paper>
+			{health?.broken.length ? (
+				<Paper withBorder p="md" radius="md">
+					<Table verticalSpacing="xs">
+						<Table.Thead>
+							<Table.Tr>
+								<Table.Th>表情</Table.Th>
+								<Table.Th>原因</Table.Th>
+							</Table.Tr>
+						</Table.Thead>
+						<Table.Tbody>
+							{health.broken.map((issue) => (
+								<Table.Tr key={issue.key}>
+									<Table.Td>
+										<Badge variant="light" color="orange">
+											{issue.key}
+										</Badge>
+									</Table.Td>
+									<Table.Td>
+										<Text size="sm" lineClamp={1} title={issue.missing ?? issue.message}>
+											{issue.message}
+										</Text>
+									</Table.Td>
+								</Table.Tr>
+							))}
+						</Table.Tbody>
+					</Table>
+				</Paper>
+			) : null}
+		</Stack>
+	)
+}
+
+function AliasTable({
+	policy,
+	options,
+	busy,
+	onAdd,
+	onRemove,
+}: {
+	policy: MemeScopePolicy
+	options: { value: string; label: string }[]
+	busy: boolean
+	onAdd: (alias: string, key: string) => Promise<void>
+	onRemove: (alias: string) => Promise<void>
+}) {
+	const [alias, setAlias] = useState('')
+	const [key, setKey] = useState<string | null>(null)
+	const entries = Object.entries(policy.aliases)
+
+	const handleAdd = async () => {
+		if (!alias.trim() || !key) return
+		await onAdd(alias.trim(), key)
+		setAlias('')
+		setKey(null)
+	}
+
+	return (
+		<Paper withBorder p="md" radius="md">
+			<Group gap="xs" mb="sm">
+				<Text fw={600}>别名</Text>
+				<Text size="xs" c="dimmed">
+					别名可直接作为关键词触发，scope 中的别名覆盖全局同名别名
+				</Text>
+			</Group>
+			{entries.length ? (
+				<Table verticalSpacing="xs" mb="sm">
+					<Table.Thead>
+						<Table.Tr>
+							<Table.Th>别名</Table.Th>
+							<Table.Th>表情</Table.Th>
+							<Table.Th style={{ width: 80 }} />
+						</Table.Tr>
+					</Table.Thead>
+					<Table.Tbody>
+						{entries.map(([name, target]) => (
+							<Table.Tr key={name}>
+								<Table.Td>{name}</Table.Td>
+								<Table.Td>
+									<Badge variant="light">{target}</Badge>
+								</Table.Td>
+								<Table.Td>
+									<Button
+										size="xs"
+										variant="subtle"
+										color="red"
+										disabled={busy}
+										leftSection={<IconTrash size={14} />}
+										onClick={() => void onRemove(name)}
+									>
+										移除
+									</Button>
+								</Table.Td>
+							</Table.Tr>
+						))}
+					</Table.Tbody>
+				</Table>
+			) : (
+				<Text size="sm" c="dimmed" mb="sm">
+					暂无别名
+				</Text>
+			)}
+			<Group align="flex-end" gap="sm">
+				<TextInput
+					style={{ flex: 1 }}
+					label="新增别名"
+					placeholder="例如 摸头"
+					value={alias}
+					onChange={(e) => setAlias(e.currentTarget.value)}
+				/>
+				<Select
+					style={{ flex: 1 }}
+					label="对应表情"
+					data={options}
+					searchable
+					comboboxProps={{ withinPortal: true }}
+					nothingFoundMessage="未找到表情"
+					value={key}
+					onChange={setKey}
+				/>
+				<Button size="xs" variant="light" loading={busy} disabled={!alias.trim() || !key} onClick={() => void handleAdd()}>
+					添加
+				</Button>
+			</Group>
+		</Paper>
+	)
+}
+
+function MemePolicyTab({ ctx }: { ctx: PluginExtensionContext }) {
+	const { policies, catalog, loading, error, setError, refresh } = useMemePolicies()
+	const [scope, setScope] = useState(GLOBAL_SCOPE)
+	const [newScope, setNewScope] = useState('')
+	const [allow, setAllow] = useState<string[]>([])
+	const [block, setBlock] = useState<string[]>([])
+	const [busy, setBusy] = useState(false)
+
+	const policy = useMemo(
+		() => policies.find((item) => item.id === scope) ?? emptyPolicy(scope),
+		[policies, scope],
+	)
+
+	useEffect(() => {
+		setAllow(policy.allow)
+		setBlock(policy.block)
+	}, [policy])
+
+	const scopeOptions = useMemo(() => {
+		const ids = new Set([GLOBAL_SCOPE, ...policies.map((item) => item.id), scope])
+		return [...ids].map((id) => ({ value: id, label: id === GLOBAL_SCOPE ? '全局' : id }))
+	}, [policies, scope])
+
+	const keyOptions = useMemo(
+		() =>
+			catalog.map((entry) => ({
+				value: entry.key,
+				label: entry.keywords.length ? `${entry.keywords.join('/')} (${entry.key})` : entry.key,
+			})),
+		[catalog],
+	)
+
+	const mutate = async (action: () => Promise<unknown>, fallback: string) => {
+		setBusy(true)
+		try {
+			await action()
+			await refresh()
+		} catch (err) {
+			setError(rpcErrorMessage(err, fallback))
+		} finally {
+			setBusy(false)
+		}
+	}
+
+	const handleAddScope = () => {
+		const id = newScope.trim()
+		if (!id) return
+		setScope(id)
+		setNewScope('')
+	}
+
+	const handleRemoveScope = async () => {
+		await mutate(() => rpc().removePolicy(scope), '删除策略失败')
+		setScope(GLOBAL_SCOPE)
+	}
+
+	return (
+		<Stack gap="md">
+			{error ? (
+				<Alert icon={<IconAlertCircle size={16} />} color="red">
+					{error}
+				</Alert>
+			) : null}
+			<Paper withBorder p="md" radius="md">
+				<Group justify="space-between" align="flex-start">
+					<Stack gap={6}>
+						<Group gap="xs">
+							<Title order={4}>表情策略</Title>
+							<Badge color="teal" variant="light" leftSection={<IconShieldCheck size={14} />}>
+								{policies.length} 个 scope
+							</Badge>
+						</Group>
+						<Text size="sm" c="dimmed">
+							全局与 scope 策略依次生效：任一层禁用即不可用，启用名单非空时只允许其中的表情
+						</Text>
+					</Stack>
+					<Button size="sm" variant="light" loading={loading} leftSection={<IconReload size={14} />} onClick={() => void refresh()}>
+						刷新
+					</Button>
+				</Group>
+				<Group align="flex-end" gap="sm" mt="md">
+					<Select
+						style={{ flex: 1 }}
+						label="scope"
+						data={scopeOptions}
+						allowDeselect={false}
+						value={scope}
+						onChange={(value) => setScope(value ?? GLOBAL_SCOPE)}
+					/>
+					<TextInput
+						style={{ flex: 1 }}
+						label="新增 scope"
+						placeholder="例如群号"
+						value={newScope}
+						onChange={(e) => setNewScope(e.currentTarget.value)}
+					/>
+					<Button size="xs" variant="light" leftSection={<IconPlus size={14} />} disabled={!newScope.trim()} onClick={handleAddScope}>
+						添加
+					</Button>
+				</Group>
+			</Paper>
+			{loading && !catalog.length ? (
+				<Group justify="center" py="md">
+					<Loader size="sm" />
+				</Group>
+			) : (
+				<>
+					<Paper withBorder p="md" radius="md">
+						<Stack gap="sm">
+							<MultiSelect
+								label="启用名单"
+								description="留空表示不限制"
+								data={keyOptions}
+								searchable
+								clearable
+								comboboxProps={{ withinPortal: true }}
+								nothingFoundMessage="未找到表情"
+								value={allow}
+								onChange={setAllow}
+							/>
+							<MultiSelect
+								label="禁用名单"
+								data={keyOptions}
+								searchable
+								clearable
+								comboboxProps={{ withinPortal: true }}
+								nothingFoundMessage="未找到表情"
+								value={block}
+								onChange={setBlock}
+							/>
+							<Group justify="flex-end" gap="sm">
+								{scope !== GLOBAL_SCOPE && policy.updatedAt ? (
+									<Button size="xs" variant="subtle" color="red" disabled={busy} onClick={() => void handleRemoveScope()}>
+										删除该 scope
+									</Button>
+								) : null}
+								<Button
+									size="xs"
+									loading={busy}
+									onClick={() => void mutate(() => rpc().updatePolicy(scope, { allow, block }), '保存策略失败')}
+								>
+									保存
+								</Button>
+							</Group>
+						</Stack>
+					</Paper>
+					<AliasTable
+						policy={policy}
+						options={keyOptions}
+						busy={busy}
+						onAdd={(alias, key) => mutate(() => rpc().setAlias(scope, alias, key), '添加别名失败')}
+						onRemove={(alias) => mutate(() => rpc().removeAlias(scope, alias), '移除别名失败')}
+					/>
+				</>
+			)}
+		</Stack>
+	)
+}
+
+const module = definePluginUIModule({
+	extensions: [
+		{
+			point: 'plugin:tabs',
+			id: 'meme-policy',
+			priority: 15,
+			meta: { label: '表情策略' },
+			when: (ctx) => ctx.pluginName === 'MemeWorker',
+			Component: MemePolicyTab,
+		},
+		{
+			point: 'plugin:tabs',
+			id: 'meme-health',
+			priority: 16,
+			meta: { label: '资源状态' },
+			when: (ctx) => ctx.pluginName === 'MemeWorker',
+			Component: MemeHealthTab,
+		},
+	],
+})
+
+export default module
@@ -0,0 +1,85 @@
+import type { Collection } from '@pluxel/hmr/signaldb'
+
+import type { MemeUsageEntry, MemeUsageQuery } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** 本地时区的 YYYY-MM-DD */
+export function formatDay(at: number): string {
+	const date = new Date(at)
+	const month = String(date.getMonth() + 1).padStart(2, '0')
+	const day = String(date.getDate()).padStart(2, '0')
+	return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * 按表情 key 与日期聚合的使用次数，每个 key 每天一条记录
+ */
+export class MemeUsage {
+	// 读-改-写需要串行，否则并发生成会丢计数
+	private pending: Promise<void> = Promise.resolve()
+
+	constructor(private readonly entries: Collection<MemeUsageEntry, string, MemeUsageEntry>) {}
+
+	record(key: string, at = Date.now()): Promise<void> {
+		const task = this.pending.then(() => this.increment(key, at))
+		this.pending = task.catch(() => {})
+		return task
+	}
+
+	/** 各表情的总次数，按次数降序 */
+	async totals(query: MemeUsageQuery = {}): Promise<[string, number][]> {
+		const counts = new Map<string, number>()
+		for (const entry of await this.select(query)) {
+			counts.set(entry.key, (counts.get(entry.key) ?? 0) + entry.count)
+		}
+		return [...counts].sort((a, b) => b[1] - a[1])
+	}
+
+	/** 按天的总次数，缺失的日期补 0；days 缺省时从最早一条记录开始 */
+	async timeline(query: MemeUsageQuery = {}): Promise<[string, number][]> {
+		const entries = await this.select(query)
+		const counts = new Map<string, number>()
+		for (const entry of entries) {
+			counts.set(entry.day, (counts.get(entry.day) ?? 0) + entry.count)
+		}
+		const today = formatDay(Date.now())
+		const first = query.days
+			? formatDay(Date.now() - (query.days - 1) * DAY_MS)
+			: entries.reduce((min, entry) => (entry.day < min ? entry.day : min), today)
+
+		const result: [string, number][] = []
+		// 用正午推进，避免夏令时切换导致跳过或重复某天
+		for (let at = new Date(`${first}T12:00:00`).getTime(); ; at += DAY_MS) {
+			const day = formatDay(at)
+			result.push([day, counts.get(day) ?? 0])
+			if (day >= today) break
+		}
+		return result
+	}
+
+	async reset(keys?: string[]) {
+		const entries = await this.select({ keys })
+		for (const entry of entries) {
+			await this.entries.removeOne({ id: entry.id })
+		}
+	}
+
+	private async select(query: MemeUsageQuery): Promise<MemeUsageEntry[]> {
+		const since = query.days ? formatDay(Date.now() - (query.days - 1) * DAY_MS) : undefined
+		const keys = query.keys ? new Set(query.keys) : undefined
+		const entries = await this.entries.find()
+		return entries.filter((entry) => (!since || entry.day >= since) && (!keys || keys.has(entry.key)))
+	}
+
+	private async increment(key: string, at: number) {
+		const day = formatDay(at)
+		const id = `${key}:${day}`
+		const [existing] = await this.entries.find({ id })
+		if (existing) {
+			await this.entries.updateOne({ id }, { $set: { count: existing.count + 1, updatedAt: at } })
+		} else {
+			await this.entries.insert({ id, key, day, count: 1, updatedAt: at })
+		}
+	}
+}
@@ -1,25 +1,50 @@
 // @ts-check
 import { Buffer } from 'node:buffer'
-import { getMeme, Resources } from 'pluxel-plugin-napi-rs/meme-generator'
+import { getMeme, Resources, Tools } from 'pluxel-plugin-napi-rs/meme-generator'
 
+/** @typedef {import('./types').MemeHealthIssue} MemeHealthIssue */
+/** @typedef {import('./types').MemeHealthWorkerResult} MemeHealthWorkerResult */
+/** @typedef {import('./types').MemeJobPayload} MemeJobPayload */
+/** @typedef {import('./types').MemeToolCall} MemeToolCall */
+/** @typedef {import('./types').MemeToolWorkerResult} MemeToolWorkerResult */
 /** @typedef {import('./types').MemeWorkerJob} MemeWorkerJob */
 /** @typedef {import('./types').MemeWorkerResult} MemeWorkerResult */
 /** @typedef {import('pluxel-plugin-napi-rs/meme-generator').Error} MemeGeneratorError */
 /** @typedef {import('pluxel-plugin-napi-rs/meme-generator').MemeResult} MemeResult */
 
-Resources.checkResourcesInBackground()
+// 资源由首个 health 任务同步下载校验，见 ensureResources
+let resourcesReady = false
+
+/**
+ * 同步下载并校验模板资源，每个 worker 只执行一次。
+ * 后台下载没有完成通知，下载途中生成预览会把尚未下载的模板误判为损坏。
+ * health 任务由主线程分发到单独的健康检查 pool，下载期间生成任务的 worker 不受影响。
+ */
+function ensureResources() {
+	if (resourcesReady) return
+	Resources.checkResources()
+	resourcesReady = true
+}
 
 /**
  * @param {MemeGeneratorError} error
  */
 function describeGeneratorError(error) {
 	switch (error.type) {
+		case 'ImageDecodeError':
+			return `图片解码失败：${error.field0.error}`
+		case 'ImageEncodeError':
+			return `图片编码失败：${error.field0.error}`
+		case 'ImageAssetMissing':
+			return `缺少模板资源：${error.field0.path}，请等待资源下载完成。`
 		case 'ImageNumberMismatch':
 			return `该模板需要 ${error.field0.min}~${error.field0.max} 张图片，实际提供了 ${error.field0.actual} 张。`
 		case 'TextNumberMismatch':
 			return `该模板允许 ${error.field0.min}~${error.field0.max} 段文字，实际提供了 ${error.field0.actual} 段。`
 		case 'TextOverLength':
 			return `存在超长文本：${error.field0.text}`
+		case 'DeserializeError':
+			return `选项解析失败：${error.field0.error}`
 		case 'MemeFeedback':
 			return error.field0.feedback
 		default:
@@ -28,12 +53,103 @@ function describeGeneratorError(error) {
 }
 
 /**
- * @param {MemeWorkerJob} job
+ * 模板资源缺失与编码失败属于服务端故障，其余错误由请求的图片、文字或选项导致
+ * @param {MemeGeneratorError} error
+ */
+function isInternalError(error) {
+	return error.type === 'ImageAssetMissing' || error.type === 'ImageEncodeError'
+}
+
+/**
+ * 结构化克隆后 Buffer 会变成 Uint8Array，原生绑定需要 Buffer
+ * @param {Uint8Array} bytes
+ */
+function toBuffer(bytes) {
+	return Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+/**
+ * @param {Buffer} buffer
+ */
+function toArrayBuffer(buffer) {
+	return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
+}
+
+/**
+ * @param {MemeToolCall} call
+ */
+function callTool(call) {
+	const ops = Tools.ImageOperations
+	switch (call.op) {
+		case 'inspect':
+			return ops.inspect(toBuffer(call.image))
+		case 'flipHorizontal':
+		case 'flipVertical':
+		case 'grayscale':
+		case 'invert':
+		case 'gifReverse':
+		case 'gifSplit':
+			return ops[call.op](toBuffer(call.image))
+		case 'rotate':
+			return ops.rotate(toBuffer(call.image), call.options)
+		case 'resize':
+			return ops.resize(toBuffer(call.image), call.options)
+		case 'crop':
+			return ops.crop(toBuffer(call.image), call.options)
+		case 'gifChangeDuration':
+			return ops.gifChangeDuration(toBuffer(call.image), call.options)
+		case 'mergeHorizontal':
+		case 'mergeVertical':
+			return ops[call.op](call.images.map(toBuffer))
+		case 'gifMerge':
+			return ops.gifMerge(call.images.map(toBuffer), call.options)
+		case 'renderMemeList':
+			return Tools.renderMemeList(call.params)
+		case 'renderMemeStatistics':
+			return Tools.renderMemeStatistics(call.params)
+		default:
+			throw new Error(`Unknown tool op: ${/** @type {any} */ (call)?.op}`)
+	}
+}
+
+/**
+ * @param {MemeToolCall} call
+ * @returns {MemeToolWorkerResult}
+ */
+function runTool(call) {
+	const started = Date.now()
+	/** @type {ReturnType<typeof callTool>} */
+	let result
+	try {
+		result = callTool(call)
+	} catch (err) {
+		return { ok: false, message: '图片处理失败，请稍后重试。', durationMs: Date.now() - started, internal: true }
+	}
+
+	if (result.type === 'Err') {
+		return {
+			ok: false,
+			message: describeGeneratorError(result.field0),
+			durationMs: Date.now() - started,
+			internal: isInternalError(result.field0),
+		}
+	}
+	const value = result.field0
+	if (Array.isArray(value)) {
+		return { ok: true, kind: 'images', buffers: value.map(toArrayBuffer), durationMs: Date.now() - started }
+	}
+	if (Buffer.isBuffer(value)) {
+		return { ok: true, kind: 'image', buffer: toArrayBuffer(value), durationMs: Date.now() - started }
+	}
+	return { ok: true, kind: 'info', info: value, durationMs: Date.now() - started }
+}
+
+/**
+ * @param {MemeJobPayload} payload
  * @returns {Promise<MemeWorkerResult>}
  */
-export default async function run(job) {
+async function generateMeme(payload) {
 	const started = Date.now()
-	const payload = job.payload
 	const meme = getMeme(payload.key)
 	if (!meme) {
 		return { ok: false, message: `未找到模板：${payload.key}`, durationMs: Date.now() - started }
@@ -42,20 +158,78 @@ export default async function run(job) {
 	/** @type {MemeResult} */
 	let result
 	try {
-		result = meme.generate(payload.images, payload.texts, {})
+		result = meme.generate(payload.images, payload.texts, payload.options)
 	} catch (err) {
-		return { ok: false, message: '生成表情失败，请稍后重试。', durationMs: Date.now() - started }
+		return { ok: false, message: '生成表情失败，请稍后重试。', durationMs: Date.now() - started, internal: true }
 	}
 
 	if (result.type === 'Err') {
-		return { ok: false, message: describeGeneratorError(result.field0), durationMs: Date.now() - started }
+		return {
+			ok: false,
+			message: describeGeneratorError(result.field0),
+			durationMs: Date.now() - started,
+			internal: isInternalError(result.field0),
+		}
 	}
 
 	const buffer = Buffer.from(result.field0)
 	return {
 		ok: true,
-		buffer: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength),
+		buffer: toArrayBuffer(buffer),
 		meta: { key: payload.key },
 		durationMs: Date.now() - started,
 	}
 }
+
+/**
+ * 等待资源下载完成后，用默认参数生成预览来检查模板资源；只把资源缺失或损坏记为问题，
+ * 其他错误（如模板自身的反馈）不影响可用性。
+ * @param {string[]} keys
+ * @returns {MemeHealthWorkerResult}
+ */
+function checkHealth(keys) {
+	const started = Date.now()
+	ensureResources()
+	/** @type {MemeHealthIssue[]} */
+	const issues = []
+	for (const key of keys) {
+		const meme = getMeme(key)
+		if (!meme) {
+			issues.push({ key, message: `未找到模板：${key}` })
+			continue
+		}
+		/** @type {MemeResult} */
+		let result
+		try {
+			result = meme.generatePreview()
+		} catch (err) {
+			issues.push({ key, message: `预览生成失败：${String(err)}` })
+			continue
+		}
+		if (result.type === 'Ok') continue
+		const error = result.field0
+		if (error.type === 'ImageAssetMissing') {
+			issues.push({ key, message: describeGeneratorError(error), missing: error.field0.path })
+		} else if (error.type === 'ImageDecodeError') {
+			issues.push({ key, message: describeGeneratorError(error) })
+		}
+	}
+	return { ok: true, issues, durationMs: Date.now() - started }
+}
+
+/**
+ * @param {MemeWorkerJob} job
+ * @returns {Promise<MemeWorkerResult | MemeToolWorkerResult | MemeHealthWorkerResult>}
+ */
+export default async function run(job) {
+	switch (job.kind) {
+		case 'meme':
+			return generateMeme(job.payload)
+		case 'tool':
+			return runTool(job.call)
+		case 'health':
+			return checkHealth(job.keys)
+		default:
+			throw new Error(`Unknown worker job: ${/** @type {any} */ (job)?.kind}`)
+	}
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'bun:test'
+import { Buffer } from 'node:buffer'
+
+import { createCommandIndex, parseMemeCommand } from '../src/command.ts'
+import { circleOption, directionOption, memeInfo } from './fixtures.ts'
+
+const petpet = memeInfo('petpet', {
+	keywords: ['摸摸', '摸头'],
+	params: { minImages: 1, maxImages: 1, options: [circleOption] },
+})
+const say = memeInfo('say', { keywords: ['说'], params: { minTexts: 1, maxTexts: 2 } })
+const friend = memeInfo('my_friend', {
+	keywords: ['我朋友说'],
+	shortcuts: [{ pattern: '我朋友说(?P<text>\\S+)', names: [], texts: ['{text}'], options: {} }],
+	params: { minTexts: 1, maxTexts: 1, options: [directionOption] },
+})
+const patA = memeInfo('pat_a', { keywords: ['拍'], params: { maxTexts: 1 } })
+const patB = memeInfo('pat_b', { keywords: ['拍'], params: { maxTexts: 1 } })
+
+const index = createCommandIndex([petpet, say, friend, patA, patB])
+const avatar = { name: 'avatar', data: Buffer.from('avatar') }
+
+describe('parseMemeCommand', () => {
+	it('matches keywords and collects texts', async () => {
+		const result = await parseMemeCommand(index, '说 你好 "带 空格"')
+		expect(result.ok).toBe(true)
+		if (!result.ok) return
+		expect(result.info.key).toBe('say')
+		expect(result.payload.texts).toEqual(['你好', '带 空格'])
+	})
+
+	it('fills texts from shortcut groups', async () => {
+		const result = await parseMemeCommand(index, '我朋友说晚安')
+		expect(result.ok).toBe(true)
+		if (!result.ok) return
+		expect(result.shortcut).toBe('我朋友说(?P<text>\\S+)')
+		expect(result.payload.texts).toEqual(['晚安'])
+	})
+
+	it('prefers aliases and hides disallowed memes', async () => {
+		const filter = { isAllowed: (key: string) => key !== 'pat_b', aliases: { rua: 'petpet' } }
+		const alias = await parseMemeCommand(index, 'rua #1', { attachments: [avatar] }, filter)
+		expect(alias.ok && alias.info.key).toBe('petpet')
+
+		const pat = await parseMemeCommand(index, '拍', {}, filter)
+		expect(pat.ok && pat.info.key).toBe('pat_a')
+
+		const hidden = await parseMemeCommand(index, '说 你好', {}, { isAllowed: () => false, aliases: {} })
+		expect(hidden.ok ? null : hidden.reason).toBe('no-match')
+	})
+
+	it('reports ambiguous keywords', async () => {
+		const result = await parseMemeCommand(index, '拍')
+		expect(result.ok).toBe(false)
+		if (result.ok) return
+		expect(result.reason).toBe('ambiguous')
+		expect(result.matches).toEqual(['pat_a', 'pat_b'])
+	})
+
+	it('parses declared long, short and alias flags', async () => {
+		for (const flag of ['--circle', '-c', '--round']) {
+			const result = await parseMemeCommand(index, `摸摸 ${flag}`, { attachments: [avatar] })
+			expect(result.ok && result.payload.options).toEqual({ circle: true })
+		}
+		const valued = await parseMemeCommand(index, '我朋友说 --direction left 晚安')
+		expect(valued.ok && valued.payload.options).toEqual({ direction: 'left' })
+	})
+
+	it('keeps undeclared dash tokens as text', async () => {
+		const result = await parseMemeCommand(index, '说 -_- -hello')
+		expect(result.ok && result.payload.texts).toEqual(['-_-', '-hello'])
+
+		const ended = await parseMemeCommand(index, '我朋友说 -- --direction')
+		expect(ended.ok && ended.payload.texts).toEqual(['--direction'])
+	})
+
+	it('rejects invalid option values', async () => {
+		const missingValue = await parseMemeCommand(index, '我朋友说 晚安 --direction')
+		expect(missingValue.ok ? null : missingValue.reason).toBe('invalid-option')
+
+		const badChoice = await parseMemeCommand(index, '我朋友说 --direction up 晚安')
+		expect(badChoice.ok ? null : badChoice.reason).toBe('invalid-option')
+	})
+
+	it('uses the sender avatar when exactly one image is missing', async () => {
+		const result = await parseMemeCommand(index, '摸摸', {
+			resolveImage: (ref) => (ref.type === 'self' ? avatar : null),
+		})
+		expect(result.ok && result.payload.images).toEqual([avatar])
+
+		const unavailable = await parseMemeCommand(index, '摸摸 @123')
+		expect(unavailable.ok ? null : unavailable.unresolved).toEqual([{ type: 'mention', id: '123' }])
+	})
+
+	it('reports missing and extra inputs', async () => {
+		const missing = await parseMemeCommand(index, '摸摸', { useSelfImage: false })
+		expect(missing.ok).toBe(false)
+		if (missing.ok) return
+		expect(missing.reason).toBe('missing')
+		expect(missing.missing).toEqual({ images: 1, texts: 0 })
+
+		const tooMany = await parseMemeCommand(index, '说 一 二 三')
+		expect(tooMany.ok ? null : tooMany.reason).toBe('too-many')
+	})
+})
@@ -0,0 +1,50 @@
+import type { MemeInfo, MemeOption, MemeParams, ParserFlags } from 'pluxel-plugin-napi-rs/meme-generator'
+
+export function flags(overrides: Partial<ParserFlags> = {}): ParserFlags {
+	return { short: false, long: true, shortAliases: [], longAliases: [], ...overrides }
+}
+
+export function memeInfo(
+	key: string,
+	overrides: Omit<Partial<MemeInfo>, 'params'> & { params?: Partial<MemeParams> } = {},
+): MemeInfo {
+	const { params, ...rest } = overrides
+	return {
+		key,
+		keywords: [],
+		shortcuts: [],
+		tags: new Set(),
+		dateCreated: new Date(0),
+		dateModified: new Date(0),
+		...rest,
+		params: {
+			minImages: 0,
+			maxImages: 0,
+			minTexts: 0,
+			maxTexts: 0,
+			defaultTexts: [],
+			options: [],
+			...params,
+		},
+	}
+}
+
+export const circleOption: MemeOption = {
+	type: 'Boolean',
+	field0: { name: 'circle', parserFlags: flags({ short: true, longAliases: ['round'] }) },
+}
+
+export const directionOption: MemeOption = {
+	type: 'String',
+	field0: { name: 'direction', choices: ['left', 'right'], parserFlags: flags() },
+}
+
+export const countOption: MemeOption = {
+	type: 'Integer',
+	field0: { name: 'count', minimum: 1, maximum: 10, parserFlags: flags() },
+}
+
+export const scaleOption: MemeOption = {
+	type: 'Float',
+	field0: { name: 'scale', minimum: 0.5, parserFlags: flags() },
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'bun:test'
+
+import { HttpRequestError, parseGenerateForm, readFormData } from '../src/http.ts'
+
+function formRequest(form: FormData, headers: Record<string, string> = {}) {
+	const request = new Request('http://localhost/memes/petpet', { method: 'POST', body: form })
+	for (const [name, value] of Object.entries(headers)) request.headers.set(name, value)
+	return request
+}
+
+/** 不带 Content-Length 的分块请求体 */
+function streamRequest(chunks: Uint8Array[]) {
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) controller.enqueue(chunk)
+			controller.close()
+		},
+	})
+	return new Request('http://localhost/memes/petpet', {
+		method: 'POST',
+		body,
+		headers: { 'content-type': 'multipart/form-data; boundary=x' },
+		duplex: 'half',
+	} as RequestInit)
+}
+
+async function rejection(promise: Promise<unknown>) {
+	try {
+		await promise
+	} catch (err) {
+		return err as HttpRequestError
+	}
+	throw new Error('expected rejection')
+}
+
+describe('readFormData', () => {
+	it('parses multipart bodies within the limit', async () => {
+		const form = new FormData()
+		form.append('texts', 'hello')
+		form.append('images', new File([new Uint8Array([1, 2, 3])], 'avatar.png'))
+		const parsed = await readFormData(formRequest(form), 1024)
+		expect(parsed.get('texts')).toBe('hello')
+		expect((parsed.get('images') as File).size).toBe(3)
+	})
+
+	it('rejects a declared Content-Length over the limit before reading', async () => {
+		const form = new FormData()
+		form.append('texts', 'hello')
+		const err = await rejection(readFormData(formRequest(form, { 'content-length': '4096' }), 1024))
+		expect(err).toBeInstanceOf(HttpRequestError)
+		expect(err.status).toBe(413)
+	})
+
+	it('stops reading once a streamed body exceeds the limit', async () => {
+		const chunk = new Uint8Array(600)
+		const err = await rejection(readFormData(streamRequest([chunk, chunk, chunk]), 1024))
+		expect(err.status).toBe(413)
+	})
+
+	it('reports malformed multipart bodies as bad requests', async () => {
+		const err = await rejection(readFormData(streamRequest([new TextEncoder().encode('not multipart')]), 1024))
+		expect(err).toBeInstanceOf(HttpRequestError)
+		expect(err.status).toBe(400)
+	})
+})
+
+describe('parseGenerateForm', () => {
+	it('reads images in order with texts and JSON options', async () => {
+		const form = new FormData()
+		form.append('images', new File([new Uint8Array([1])], 'first.png'))
+		form.append('images', new File([new Uint8Array([2])], 'second.jpg'))
+		form.append('texts', '["a","b"]')
+		form.append('args', '{"circle":true}')
+		const parsed = await parseGenerateForm(form)
+		expect(parsed.images.map((image) => [image.name, [...image.data]])).toEqual([
+			['first', [1]],
+			['second', [2]],
+		])
+		expect(parsed.texts).toEqual(['a', 'b'])
+		expect(parsed.options).toEqual({ circle: true })
+	})
+
+	it('rejects options with unsupported values', async () => {
+		const form = new FormData()
+		form.append('options', '{"circle":null}')
+		expect((await rejection(parseGenerateForm(form))).message).toBe('字段 options 需为键值对象')
+	})
+})
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+
+import { DEFAULT_IMAGE_LIMITS, loadImageSource, MemeImageError } from '../src/images.ts'
+
+const realFetch = globalThis.fetch
+
+function mockFetch(handler: (url: string) => Response) {
+	const fn = mock(async (input: string | URL | Request) => handler(String(input instanceof Request ? input.url : input)))
+	globalThis.fetch = fn as unknown as typeof fetch
+	return fn
+}
+
+async function rejection(promise: Promise<unknown>) {
+	try {
+		await promise
+	} catch (err) {
+		return err as MemeImageError
+	}
+	throw new Error('expected rejection')
+}
+
+afterEach(() => {
+	globalThis.fetch = realFetch
+})
+
+describe('loadImageSource', () => {
+	it('rejects URLs pointing at private addresses before fetching', async () => {
+		const fetchMock = mockFetch(() => new Response(new Uint8Array([1])))
+		for (const url of ['http://169.254.169.254/latest/meta-data', 'http://[::1]/a.png', 'http://0x7f000001/a.png']) {
+			const err = await rejection(loadImageSource({ url }, 0))
+			expect(err).toBeInstanceOf(MemeImageError)
+			expect(err.message).toContain('内网地址')
+		}
+		expect(fetchMock).not.toHaveBeenCalled()
+	})
+
+	it('rejects a redirect to a private address', async () => {
+		const fetchMock = mockFetch(
+			() => new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } }),
+		)
+		const err = await rejection(loadImageSource({ url: 'http://93.184.216.34/avatar.png' }, 0))
+		expect(err.message).toContain('内网地址 169.254.169.254')
+		expect(fetchMock).toHaveBeenCalledTimes(1)
+	})
+
+	it('follows redirects between allowed hosts', async () => {
+		const fetchMock = mockFetch((url) =>
+			new URL(url).pathname === '/avatar.png'
+				? new Response(null, { status: 302, headers: { location: '/cdn/avatar.png' } })
+				: new Response(new Uint8Array([1, 2, 3])),
+		)
+		const image = await loadImageSource({ url: 'http://93.184.216.34/avatar.png' }, 0)
+		expect([...image.data]).toEqual([1, 2, 3])
+		expect(fetchMock.mock.calls.map(([input]) => String(input))).toEqual([
+			'http://93.184.216.34/avatar.png',
+			'http://93.184.216.34/cdn/avatar.png',
+		])
+	})
+
+	it('applies the host allow and deny lists', async () => {
+		mockFetch(() => new Response(new Uint8Array([1])))
+		const limits = { ...DEFAULT_IMAGE_LIMITS, allowHosts: ['*.example.com'], denyHosts: ['bad.example.com'] }
+		expect((await rejection(loadImageSource({ url: 'http://93.184.216.34/a.png' }, 0, limits))).message).toContain(
+			'不在允许列表中',
+		)
+		expect((await rejection(loadImageSource({ url: 'http://bad.example.com/a.png' }, 0, limits))).message).toContain(
+			'已被禁止',
+		)
+	})
+
+	it('rejects local files unless allowed', async () => {
+		const err = await rejection(loadImageSource({ path: import.meta.path }, 0))
+		expect(err.message).toContain('不允许读取本地文件')
+		const image = await loadImageSource({ path: import.meta.path }, 0, { ...DEFAULT_IMAGE_LIMITS, allowLocalFiles: true })
+		expect(image.name).toBe('images.test')
+	})
+})
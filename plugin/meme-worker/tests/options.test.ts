@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test'
+
+import { validateMemeOptions } from '../src/options.ts'
+import { circleOption, countOption, directionOption, flags, memeInfo, scaleOption } from './fixtures.ts'
+
+const info = memeInfo('sample', { params: { options: [circleOption, directionOption, countOption, scaleOption] } })
+
+function message(options: Parameters<typeof validateMemeOptions>[1], target = info) {
+	const result = validateMemeOptions(target, options)
+	return result.ok ? null : result.message
+}
+
+describe('validateMemeOptions', () => {
+	it('converts form and command inputs to option values', () => {
+		expect(validateMemeOptions(info, { circle: 'yes', direction: 'left', count: '3', scale: 1.5 })).toEqual({
+			ok: true,
+			values: {
+				circle: { type: 'Boolean', field0: true },
+				direction: { type: 'String', field0: 'left' },
+				count: { type: 'Integer', field0: 3 },
+				scale: { type: 'Float', field0: 1.5 },
+			},
+		})
+		expect(validateMemeOptions(info, undefined)).toEqual({ ok: true, values: {} })
+	})
+
+	it('rejects invalid booleans', () => {
+		expect(message({ circle: 'maybe' })).toBe('选项 circle 需要布尔值（true/false），实际为：maybe')
+	})
+
+	it('rejects non-string and out-of-choice strings', () => {
+		expect(message({ direction: 1 })).toBe('选项 direction 需要文本，实际为：1')
+		expect(message({ direction: 'up' })).toBe('选项 direction 只能是 left、right 之一，实际为：up')
+	})
+
+	it('rejects non-numbers and non-integers', () => {
+		expect(message({ count: 'many' })).toBe('选项 count 需要整数，实际为：many')
+		expect(message({ count: 1.5 })).toBe('选项 count 需要整数，实际为：1.5')
+		expect(message({ scale: '' })).toBe('选项 scale 需要数字，实际为：')
+	})
+
+	it('rejects values outside the declared range', () => {
+		expect(message({ count: 11 })).toBe('选项 count 需在 1~10 之间，实际为：11')
+		expect(message({ scale: 0.1 })).toBe('选项 scale 需不小于 0.5，实际为：0.1')
+		const capped = memeInfo('capped', {
+			params: { options: [{ type: 'Integer', field0: { name: 'level', maximum: 3, parserFlags: flags() } }] },
+		})
+		expect(message({ level: 4 }, capped)).toBe('选项 level 需不大于 3，实际为：4')
+	})
+
+	it('rejects undeclared options', () => {
+		expect(message({ mirror: true })).toBe('模板 sample 不支持选项 mirror，可用选项：circle、direction、count、scale')
+		expect(message({ mirror: true }, memeInfo('plain'))).toBe('模板 plain 没有可配置的选项（收到 mirror）')
+	})
+})
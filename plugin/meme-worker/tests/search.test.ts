@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'bun:test'
+
+import { createSearchIndex, EXACT_MATCH_SCORE, searchIndex, type MemeSearchTools } from '../src/search.ts'
+import { memeInfo } from './fixtures.ts'
+
+// 测试只需要少量汉字，用查表代替原生拼音与分词
+const PINYIN: Record<string, string> = { 摸: 'mo', 膜: 'mo', 头: 'tou', 举: 'ju', 牌: 'pai', 拍: 'pai', 我: 'wo', 要: 'yao', 你: 'ni' }
+const WORDS = ['摸摸', '摸头', '举牌']
+
+const tools: MemeSearchTools = {
+	pinyin: (text) => [...text].map((ch) => PINYIN[ch] ?? ch),
+	cut: (text) => {
+		const tokens: string[] = []
+		let rest = text
+		while (rest) {
+			const word = WORDS.find((w) => rest.startsWith(w)) ?? rest[0]
+			tokens.push(word)
+			rest = rest.slice(word.length)
+		}
+		return tokens
+	},
+}
+
+const index = createSearchIndex(
+	[
+		memeInfo('petpet', { keywords: ['摸摸', '摸头'], tags: new Set(['动物']) }),
+		memeInfo('raise_sign', { keywords: ['举牌'] }),
+		memeInfo('pat', { keywords: ['拍'], tags: new Set(['举牌']) }),
+	],
+	tools,
+)
+
+function scores(input: string, options?: Parameters<typeof searchIndex>[2]) {
+	return Object.fromEntries(searchIndex(index, input, options).map((r) => [r.key, r.score]))
+}
+
+describe('searchIndex', () => {
+	it('scores exact, prefix and partial keyword matches', () => {
+		expect(scores('摸摸').petpet).toBe(EXACT_MATCH_SCORE)
+		expect(scores('petp').petpet).toBe(80)
+		expect(scores('摸').petpet).toBe(80)
+	})
+
+	it('matches full pinyin above initials', () => {
+		expect(scores('momo').petpet).toBe(70)
+		expect(scores('motou').petpet).toBe(70)
+		expect(scores('mt').petpet).toBe(45)
+		expect(scores('jp').raise_sign).toBe(45)
+	})
+
+	it('ranks homophones below literal matches', () => {
+		expect(scores('膜膜').petpet).toBe(55)
+		const results = searchIndex(index, '牌')
+		expect(results.map((r) => r.key)).toEqual(['raise_sign', 'pat'])
+	})
+
+	it('finds whole keywords inside a sentence', () => {
+		expect(scores('我要摸摸你').petpet).toBe(50)
+	})
+
+	it('weights tags lower and can exclude them', () => {
+		expect(scores('动物').petpet).toBe(EXACT_MATCH_SCORE * 0.5)
+		expect(scores('动物', { includeTags: false }).petpet).toBeUndefined()
+	})
+
+	it('sorts by score then key and applies the limit', () => {
+		expect(searchIndex(index, 'p').map((r) => r.key)).toEqual(['pat', 'petpet', 'raise_sign'])
+		expect(searchIndex(index, 'p', { limit: 1 })).toHaveLength(1)
+		expect(searchIndex(index, '  ')).toEqual([])
+	})
+
+	it('falls back to literal matching without native tools', () => {
+		const plain = createSearchIndex([memeInfo('petpet', { keywords: ['摸摸'] })])
+		expect(searchIndex(plain, 'momo')).toEqual([])
+		expect(searchIndex(plain, '摸摸')).toEqual([{ key: 'petpet', score: EXACT_MATCH_SCORE }])
+	})
+})